@@ -0,0 +1,196 @@
+import {
+  AlertFormat,
+  AlertOptions,
+  AlertPayload,
+  CronExecutionResult,
+  CronLogger,
+} from "./types";
+
+/** Webhook requests taking longer are aborted */
+const ALERT_TIMEOUT = 10000;
+
+interface AlertState {
+  /** Whether a failure alert was sent since the last success */
+  alerted: boolean;
+  lastAlertAt: number;
+  failures: number;
+}
+
+/**
+ * Incoming-webhook message for Slack (and compatible chat tools)
+ */
+export function formatSlackMessage(payload: AlertPayload): object {
+  const { result } = payload;
+  const title =
+    payload.type === "failure"
+      ? `:red_circle: Cron job failing: \`${payload.path}\``
+      : `:large_green_circle: Cron job recovered: \`${payload.path}\``;
+  const summary =
+    payload.type === "failure"
+      ? `${payload.path} failed ${payload.consecutiveFailures} time(s) in a row`
+      : `${payload.path} recovered after ${payload.consecutiveFailures} failure(s)`;
+
+  const fields = [
+    ["Schedule", `\`${payload.schedule}\``],
+    ["Outcome", result.outcome],
+    ["Status", result.statusCode ?? "-"],
+    ["Duration", result.duration !== undefined ? `${result.duration}ms` : "-"],
+    ["Attempts", result.attempts.length],
+    ["Fired at", result.utcTime],
+  ].map(([name, value]) => ({ type: "mrkdwn", text: `*${name}*\n${value}` }));
+
+  const blocks: object[] = [
+    { type: "section", text: { type: "mrkdwn", text: `*${title}*` } },
+    { type: "section", fields },
+  ];
+  if (result.error) {
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: `\`\`\`${result.error}\`\`\`` },
+    });
+  }
+
+  return { text: summary, blocks };
+}
+
+/**
+ * Posts an alert once a job reaches `failureThreshold` consecutive failures,
+ * again every `repeatInterval` while it keeps failing, and once it recovers
+ */
+export class WebhookAlerts {
+  private readonly webhookUrl: string;
+  private readonly format: AlertFormat;
+  private readonly failureThreshold: number;
+  private readonly repeatInterval: number;
+  private readonly headers: Record<string, string>;
+  private readonly fetchFn?: typeof fetch;
+  private readonly logger: CronLogger;
+  private states: Map<string, AlertState> = new Map();
+  private pending: Set<Promise<void>> = new Set();
+
+  constructor(
+    options: AlertOptions,
+    logger: CronLogger,
+    fetchFn?: typeof fetch,
+  ) {
+    try {
+      new URL(options.webhookUrl);
+    } catch {
+      throw new Error("alerts.webhookUrl must be a valid URL");
+    }
+
+    this.webhookUrl = options.webhookUrl;
+    this.format = options.format ?? "generic";
+    this.failureThreshold = options.failureThreshold ?? 1;
+    this.repeatInterval = options.repeatInterval ?? 60 * 60 * 1000;
+    this.headers = options.headers ?? {};
+    this.logger = logger;
+    this.fetchFn = fetchFn;
+
+    if (!["generic", "slack"].includes(this.format)) {
+      throw new Error(
+        `Invalid alert format: ${this.format} (expected generic or slack)`,
+      );
+    }
+    if (!Number.isInteger(this.failureThreshold) || this.failureThreshold < 1) {
+      throw new Error("alerts.failureThreshold must be a positive integer");
+    }
+  }
+
+  /**
+   * Record a finished execution with its job's consecutive failure count,
+   * sending an alert in the background if one is due
+   */
+  public record(
+    result: CronExecutionResult,
+    consecutiveFailures: number,
+  ): void {
+    if (result.outcome === "skipped") {
+      return;
+    }
+
+    let state = this.states.get(result.path);
+    if (!state) {
+      state = { alerted: false, lastAlertAt: 0, failures: 0 };
+      this.states.set(result.path, state);
+    }
+
+    if (result.success) {
+      if (state.alerted) {
+        this.send("recovery", result, state.failures);
+      }
+      state.alerted = false;
+      state.failures = 0;
+      return;
+    }
+
+    state.failures = consecutiveFailures;
+    if (consecutiveFailures < this.failureThreshold) {
+      return;
+    }
+
+    const now = Date.now();
+    if (state.alerted && now - state.lastAlertAt < this.repeatInterval) {
+      return;
+    }
+
+    state.alerted = true;
+    state.lastAlertAt = now;
+    this.send("failure", result, consecutiveFailures);
+  }
+
+  /**
+   * Wait for alerts still being sent
+   */
+  public async flush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  private send(
+    type: AlertPayload["type"],
+    result: CronExecutionResult,
+    consecutiveFailures: number,
+  ): void {
+    const payload: AlertPayload = {
+      type,
+      path: result.path,
+      schedule: result.schedule,
+      consecutiveFailures,
+      result,
+    };
+    const fields = { path: result.path, alert: type, consecutiveFailures };
+
+    const request = this.post(
+      this.format === "slack" ? formatSlackMessage(payload) : payload,
+    )
+      .then(() => {
+        this.logger.info(fields, `Alert sent: ${type} of ${result.path}`);
+      })
+      .catch((error) => {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.logger.warn(
+          { ...fields, error: errorMessage },
+          `Failed to send ${type} alert for ${result.path}: ${errorMessage}`,
+        );
+      })
+      .finally(() => {
+        this.pending.delete(request);
+      });
+    this.pending.add(request);
+  }
+
+  private async post(body: object): Promise<void> {
+    const fetchFn = this.fetchFn || fetch;
+    const response = await fetchFn(this.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(ALERT_TIMEOUT),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status}`);
+    }
+  }
+}
@@ -1,19 +1,121 @@
 #!/usr/bin/env node
 
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { ControlServer } from "./control-server";
+import { DevServer } from "./dev-server";
+import { statsRecord, statusRecord, streamEvents } from "./event-stream";
+import { ExecutionHistory } from "./history";
+import { formatJUnitReport } from "./junit";
+import { FileLogger, JsonLogger, LOG_LEVELS, parseSize } from "./logger";
+import { MetricsServer } from "./metrics";
+import {
+  findProjectConfig,
+  flattenSettings,
+  getProfileLayers,
+  MergedSettings,
+  mergeSettings,
+  PACKAGE_JSON_KEY,
+  PROJECT_CONFIG_FILE,
+  SettingsLayer,
+} from "./project-config";
 import { CronRunner } from "./runner";
+import { formatZonedTime, parseDuration } from "./time";
+import { TerminalUI } from "./ui";
+import {
+  CatchUpMode,
+  ConfiguredCronJob,
+  CronExecutionOutcome,
+  AlertFormat,
+  CronExecutionResult,
+  CronLogger,
+  LogLevel,
+  OverlapPolicy,
+  VercelPlan,
+} from "./types";
+
+const COMMANDS = ["history", "validate", "simulate"];
+/** History file the history command reads when none is configured */
+const DEFAULT_HISTORY_FILE = ".nextjs-crons/history.jsonl";
+const DEFAULT_STATE_FILE = ".nextjs-crons/state.json";
+const OUTPUT_FORMATS = ["text", "json", "ndjson"];
+/** How long to wait for a server started with `-- <command>` by default */
+const DEFAULT_SERVER_WAIT = "2m";
+/** How long shutdown waits for alerts still being sent */
+const ALERT_FLUSH_TIMEOUT = 5000;
+
+type OutputFormat = "text" | "json" | "ndjson";
 
 interface CliArgs {
+  command?: string;
   url?: string;
   secret?: string;
   config?: string;
   verbose?: number;
   filter?: string;
+  timezone?: string;
+  overlap?: OverlapPolicy;
+  retry?: number;
+  retryDelay?: number;
+  timeout?: number;
   once?: boolean;
+  report?: string;
+  ui?: boolean;
   list?: boolean;
+  next?: number;
   execute?: string;
+  historyFile?: string;
+  noHistory?: boolean;
+  stateFile?: string;
+  catchUp?: CatchUpMode;
+  catchUpMaxAge?: string;
+  controlPort?: number;
+  controlHost?: string;
+  controlAllowedHosts?: string[];
+  metricsPort?: number;
+  metricsHost?: string;
+  path?: string;
+  since?: string;
+  limit?: number;
+  status?: CronExecutionOutcome;
+  plan?: VercelPlan;
+  from?: string;
+  to?: string;
+  output?: string;
+  logFile?: string;
+  logFormat?: string;
+  logLevel?: string;
+  logMaxSize?: string;
+  logMaxFiles?: number;
+  alertWebhook?: string;
+  alertFormat?: AlertFormat;
+  alertAfter?: number;
+  alertRepeat?: string;
+  waitForServer?: string;
+  healthPath?: string;
+  serverCommand?: string[];
+  headers?: string[];
+  noVercelEmulation?: boolean;
+  noStdin?: boolean;
+  profile?: string;
+  printConfig?: boolean;
   help?: boolean;
 }
 
+/**
+ * Parses the value of a count flag, rejecting anything but a positive integer
+ * (parseInt alone would read "abc" as NaN and "10s" as 10).
+ */
+function parsePositiveInt(flag: string, value: string | undefined): number {
+  if (value === undefined || !/^\d+$/.test(value) || Number(value) === 0) {
+    const got = value === undefined ? "nothing" : JSON.stringify(value);
+    throw new Error(`${flag} must be a positive integer, got ${got}`);
+  }
+
+  return Number(value);
+}
+
 function parseArgs(): CliArgs {
   const args: CliArgs = {};
   const argv = process.argv.slice(2);
@@ -48,25 +150,167 @@ function parseArgs(): CliArgs {
       case "-f":
         args.filter = argv[++i];
         break;
+      case "--timezone":
+      case "-t":
+        args.timezone = argv[++i];
+        break;
+      case "--overlap":
+        args.overlap = argv[++i] as OverlapPolicy;
+        break;
+      case "--retry":
+        args.retry = parsePositiveInt(arg, argv[++i]);
+        break;
+      case "--retry-delay":
+        args.retryDelay = parsePositiveInt(arg, argv[++i]);
+        break;
+      case "--timeout":
+        args.timeout = parsePositiveInt(arg, argv[++i]);
+        break;
       case "--once":
       case "-o":
         args.once = true;
         break;
+      case "--report":
+        args.report = argv[++i];
+        break;
+      case "--ui":
+        args.ui = true;
+        break;
       case "--list":
       case "-l":
         args.list = true;
         break;
+      case "--next":
+        args.next = parsePositiveInt(arg, argv[++i]);
+        break;
       case "--execute":
       case "-e":
         args.execute = argv[++i];
         break;
+      case "--history-file":
+        args.historyFile = argv[++i];
+        break;
+      case "--no-history":
+        args.noHistory = true;
+        break;
+      case "--state-file":
+        args.stateFile = argv[++i];
+        break;
+      case "--catch-up":
+        args.catchUp = argv[++i] as CatchUpMode;
+        break;
+      case "--catch-up-max-age":
+        args.catchUpMaxAge = argv[++i];
+        break;
+      case "--control-port":
+        args.controlPort = parseInt(argv[++i], 10);
+        break;
+      case "--control-host":
+        args.controlHost = argv[++i];
+        break;
+      case "--control-allowed-host":
+        args.controlAllowedHosts = [
+          ...(args.controlAllowedHosts ?? []),
+          argv[++i],
+        ];
+        break;
+      case "--metrics-port":
+        args.metricsPort = parseInt(argv[++i], 10);
+        break;
+      case "--metrics-host":
+        args.metricsHost = argv[++i];
+        break;
+      case "--path":
+      case "-p":
+        args.path = argv[++i];
+        break;
+      case "--since":
+        args.since = argv[++i];
+        break;
+      case "--limit":
+      case "-n":
+        args.limit = parsePositiveInt("--limit", argv[++i]);
+        break;
+      case "--status":
+        args.status = argv[++i] as CronExecutionOutcome;
+        break;
+      case "--plan":
+        args.plan = argv[++i] as VercelPlan;
+        break;
+      case "--from":
+        args.from = argv[++i];
+        break;
+      case "--to":
+        args.to = argv[++i];
+        break;
+      case "--output":
+        args.output = argv[++i];
+        break;
+      case "--log-file":
+        args.logFile = argv[++i];
+        break;
+      case "--log-format":
+        args.logFormat = argv[++i];
+        break;
+      case "--log-level":
+        args.logLevel = argv[++i];
+        break;
+      case "--log-max-size":
+        args.logMaxSize = argv[++i];
+        break;
+      case "--log-max-files":
+        args.logMaxFiles = parsePositiveInt(arg, argv[++i]);
+        break;
+      case "--alert-webhook":
+        args.alertWebhook = argv[++i];
+        break;
+      case "--alert-format":
+        args.alertFormat = argv[++i] as AlertFormat;
+        break;
+      case "--alert-after":
+        args.alertAfter = parsePositiveInt(arg, argv[++i]);
+        break;
+      case "--alert-repeat":
+        args.alertRepeat = argv[++i];
+        break;
+      case "--wait-for-server":
+        args.waitForServer = argv[++i];
+        break;
+      case "--health-path":
+        args.healthPath = argv[++i];
+        break;
+      case "--header":
+      case "-H":
+        args.headers = [...(args.headers ?? []), argv[++i]];
+        break;
+      case "--no-vercel-emulation":
+        args.noVercelEmulation = true;
+        break;
+      case "--no-stdin":
+        args.noStdin = true;
+        break;
+      case "--profile":
+        args.profile = argv[++i];
+        break;
+      case "--print-config":
+        args.printConfig = true;
+        break;
       case "--help":
       case "-h":
         args.help = true;
         break;
+      case "--":
+        // Everything after -- is the command starting the app's server
+        args.serverCommand = argv.slice(i + 1);
+        i = argv.length;
+        break;
       default:
         if (!arg.startsWith("-")) {
-          args.url = arg;
+          if (i === 0 && COMMANDS.includes(arg)) {
+            args.command = arg;
+          } else {
+            args.url = arg;
+          }
         }
     }
   }
@@ -84,19 +328,124 @@ nextjs-crons - Run Next.js Vercel cron jobs locally
 
 Usage:
   nextjs-crons [options] [url]
+  nextjs-crons [options] [url] -- <command...>
+  nextjs-crons history [options]
+  nextjs-crons validate [--plan hobby|pro|enterprise] [--config <path>]
+  nextjs-crons simulate --from <iso> --to <iso> [options]
 
 Options:
-  -u, --url <url>          Base URL of your Next.js app (required)
+  -u, --url <url>          Base URL of your Next.js app (required, unless set
+                           in the project config)
   -s, --secret <secret>    Cron secret token (or use CRON_SECRET env var)
   -c, --config <path>      Path to vercel.json (default: ./vercel.json)
   -v, --verbose            Enable verbose logging (simple)
   -vv                      Enable extended verbose logging (includes response body and error details)
   -f, --filter <pattern>   Filter crons by path pattern (supports *)
+  -t, --timezone <tz>      Timezone to evaluate schedules in (default: UTC, like Vercel)
+  --overlap <policy>       What to do when a job fires while still running:
+                           allow, skip or queue (default: allow)
+  --retry <attempts>       Maximum attempts per execution, with exponential backoff (default: 1)
+  --retry-delay <ms>       Delay before the first retry, doubled on each retry (default: 1000)
+  --timeout <ms>           Abort requests after this long (maxDuration from
+                           vercel.json "functions" takes precedence)
+  -H, --header <header>    Add a request header, e.g. "X-Source: local"
+                           (repeatable, overrides the emulated headers)
+  --no-vercel-emulation    Send plain requests with a JSON Content-Type that
+                           follow redirects, instead of requests like
+                           Vercel's cron invoker (vercel-cron/1.0 user agent
+                           and Vercel headers, redirects not followed)
+  --wait-for-server <d>    Wait up to this long (e.g. 60s) for the app to
+                           answer before running crons, and skip fires while
+                           it is unreachable later on
+  --health-path <path>     Path polled while waiting for the server (default: /)
+  -- <command...>          In watch mode, start the app's server with this
+                           command, prefix its output and start the crons once
+                           it answers (--wait-for-server defaults to ${DEFAULT_SERVER_WAIT}).
+                           Stops when the command exits
   -o, --once               Execute all crons once and exit
+  --report junit=<file>    With --once or --execute, write a JUnit XML report
+                           with one test case per cron
+  --ui                     In watch mode, show a live table of jobs instead of logs
+  --output <format>        text, json or ndjson (default: text). In JSON modes
+                           watch mode prints one JSON object per event
   -l, --list               List all configured cron jobs and exit
+  --next <count>           With --list, show the next <count> run times of each job
   -e, --execute <path>     Execute a specific cron job once and exit
+  --history-file <path>    Append execution history to this file (off by
+                           default; the history command reads
+                           ${DEFAULT_HISTORY_FILE} unless set)
+  --no-history             Do not write the history file set in the project
+                           config
+  --state-file <path>      Where the last fire time of each job is kept
+                           (default: ${DEFAULT_STATE_FILE} with --catch-up,
+                           none otherwise)
+  --catch-up <mode>        Run fires missed while offline on startup:
+                           none, latest or all (default: none)
+  --catch-up-max-age <d>   Ignore missed fires older than this (e.g. 24h)
+  --control-port <port>    In watch mode, serve a dashboard and JSON API to
+                           trigger, pause and resume jobs on this port
+  --control-host <host>    Interface the control server binds to (default: 127.0.0.1)
+  --control-allowed-host <name>
+                           Another host name the control server answers to,
+                           e.g. its docker-compose service name (repeatable;
+                           localhost and IP addresses always work)
+  --metrics-port <port>    In watch mode, serve Prometheus metrics at /metrics
+                           and a healthcheck at /healthz on this port
+  --metrics-host <host>    Interface the metrics server binds to (default: 127.0.0.1)
+  --log-format <format>    text or json (default: text). json writes one
+                           object per log entry with its fields
+  --log-file <path>        Append JSON log entries to this file instead of
+                           the console
+  --log-max-size <size>    Rotate the log file past this size (default: 10m)
+  --log-max-files <count>  Rotated log files to keep (default: 5)
+  --log-level <level>      Lowest level of JSON logs: debug, info, warn or
+                           error (default: info, debug with -vv)
+  --alert-webhook <url>    POST an alert to this URL when a job keeps failing
+                           and when it recovers
+  --alert-format <format>  generic or slack (default: generic)
+  --alert-after <count>    Consecutive failures before alerting (default: 1)
+  --alert-repeat <d>       Minimum time between alerts for a job that keeps
+                           failing (default: 1h)
+  --no-stdin               In watch mode, do not read commands from stdin,
+                           e.g. when running in the background with &
+  --profile <name>         Use this profile of the project config
+  --print-config           Print each effective setting and where it came
+                           from, then exit
   -h, --help               Show this help message
 
+History options:
+  -p, --path <path>        Only show runs of this cron job
+  --since <time>           Only show runs since an ISO date or a duration ago (e.g. 24h)
+  --status <outcome>       Only show runs with this outcome:
+                           success, failure, error, timeout or skipped
+  -n, --limit <count>      Maximum number of runs to show (default: 20)
+
+Validate options:
+  --plan <plan>            Vercel plan to check limits for: hobby, pro or
+                           enterprise (default: hobby)
+
+Simulate options:
+  --from <iso>             Start of the simulated window (inclusive)
+  --to <iso>               End of the simulated window (inclusive)
+
+Project config:
+  Options are read from ${PROJECT_CONFIG_FILE}, or the "${PACKAGE_JSON_KEY}"
+  key of package.json, with the runner's option names. Named option sets go
+  in "profiles" ("defaultProfile" selects one when --profile is not given).
+  Flags override the profile, which overrides the top-level options.
+
+Durations:
+  Flags taking a duration <d> accept a number with a unit: ms, s, m, h or d
+  (e.g. 500ms, 30s, 24h). A bare number is seconds.
+
+Watch mode commands (type on stdin):
+  run [path]               Run a job now, or every job without a path
+  pause <path>             Stop scheduling a job until it is resumed
+  resume <path>            Resume a paused job
+  status                   Show every job's state, next run and last outcome
+  stats                    Show execution statistics
+  Signals: SIGUSR1 runs every job now, SIGUSR2 prints statistics
+
 Examples:
   # Start all crons in watch mode
   nextjs-crons --url http://localhost:3000
@@ -104,6 +453,12 @@ Examples:
   # Execute all crons once
   nextjs-crons --url http://localhost:3000 --once
 
+  # Start next dev and run the crons once it answers, in one terminal
+  nextjs-crons --url http://localhost:3000 -- next dev
+
+  # Wait up to 2 minutes for an app started elsewhere to answer
+  nextjs-crons --url http://localhost:3000 --wait-for-server 2m
+
   # Filter specific crons
   nextjs-crons --url http://localhost:3000 --filter "/api/crons/notifications/*"
 
@@ -113,36 +468,722 @@ Examples:
   # List all configured crons
   nextjs-crons --list
 
+  # Show the next 5 run times of each cron in Paris time
+  nextjs-crons --list --next 5 --timezone Europe/Paris
+
+  # Check vercel.json against the Pro plan before deploying
+  nextjs-crons validate --plan pro
+
+  # List everything that runs during a DST switch night
+  nextjs-crons simulate --from 2025-10-25T22:00:00Z --to 2025-10-26T06:00:00Z \\
+    --timezone Europe/Paris
+
+  # Run the latest missed fire of each job from the last day on startup
+  nextjs-crons --url http://localhost:3000 --catch-up latest --catch-up-max-age 24h
+
+  # Expose Prometheus metrics and a healthcheck to other containers
+  nextjs-crons --url http://nextjs-app:3000 --metrics-port 9464 --metrics-host 0.0.0.0
+
+  # Open a dashboard at http://127.0.0.1:8787 while crons run
+  nextjs-crons --url http://localhost:3000 --control-port 8787
+
+  # Smoke test a preview build in CI with a JUnit report
+  nextjs-crons --url https://preview.example.com --once --report junit=reports/crons.xml
+
+  # Post to Slack once a cron fails 3 times in a row, and when it recovers
+  nextjs-crons --url http://localhost:3000 --alert-webhook https://hooks.slack.com/services/... \
+    --alert-format slack --alert-after 3
+
+  # Run unattended with logs in a rotated file
+  nextjs-crons --url http://localhost:3000 --log-file logs/crons.log --log-max-size 5m
+
+  # Use the "docker" profile of nextjs-crons.config.json and see where each
+  # setting comes from
+  nextjs-crons --profile docker --print-config
+
+  # Send an extra header, on top of the ones Vercel's cron invoker sends
+  nextjs-crons --url http://localhost:3000 --header "X-Source: local"
+
+  # Run every cron once and get the results as JSON
+  nextjs-crons --url http://localhost:3000 --once --output json
+
+  # Show failed runs from the last 24 hours
+  nextjs-crons history --since 24h --status failure
+
 Environment Variables:
   CRON_SECRET              Secret token for cron authentication
   `);
 }
 
+function parseSince(value: string): Date {
+  const date = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(date.getTime())) {
+    return date;
+  }
+
+  return new Date(Date.now() - parseDuration(value));
+}
+
+function printHistory(
+  args: CliArgs,
+  file: string,
+  format: OutputFormat
+): void {
+  const results = ExecutionHistory.filter(ExecutionHistory.readFile(file), {
+    path: args.path,
+    status: args.status,
+    since: args.since ? parseSince(args.since) : undefined,
+    limit: args.limit ?? 20,
+  });
+
+  if (format !== "text") {
+    printJson(results, format);
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log(`\nNo runs found in ${file}\n`);
+    return;
+  }
+
+  console.log(`\nShowing ${results.length} run(s) from ${file}:\n`);
+
+  for (const result of results) {
+    const status = result.statusCode ?? "-";
+    const duration =
+      result.duration !== undefined ? `${result.duration}ms` : "-";
+    const icon = result.success ? "✓" : "✗";
+
+    console.log(
+      `  ${result.timestamp.toISOString()}  ${icon} ${result.outcome.padEnd(7)}  ${String(status).padEnd(3)}  ${duration.padStart(7)}  ${result.path}`
+    );
+    if (result.error) {
+      console.log(`    ${result.error}`);
+    }
+  }
+
+  console.log("");
+}
+
+function getOutputFormat(args: CliArgs): OutputFormat {
+  // "table" is the historical name of simulate's text output
+  const format = args.output === "table" ? "text" : args.output || "text";
+
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(
+      `Invalid output format: ${args.output} (expected text, json or ndjson)`
+    );
+  }
+
+  return format as OutputFormat;
+}
+
+/**
+ * Parse `--report <format>=<file>`
+ */
+function parseReport(value: string): { format: "junit"; file: string } {
+  const [format, file] = value.split(/=(.*)/);
+
+  if (format !== "junit" || !file) {
+    throw new Error(`Invalid report: ${value} (expected junit=<file>)`);
+  }
+
+  return { format, file };
+}
+
+function writeReport(value: string, results: CronExecutionResult[]): void {
+  const { file } = parseReport(value);
+
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, formatJUnitReport(results));
+}
+
+/**
+ * Logger from the --log-* flags, or undefined for the default console logs
+ */
+function createLogger(
+  args: CliArgs,
+  verbose: number | undefined,
+  format: OutputFormat
+): CronLogger | undefined {
+  const defaultLevel = verbose === 2 ? "debug" : "info";
+  const level = (args.logLevel ?? defaultLevel) as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(
+      `Invalid log level: ${args.logLevel} (expected debug, info, warn or error)`
+    );
+  }
+
+  if (args.logFile) {
+    return new FileLogger({
+      file: args.logFile,
+      level,
+      maxSize: args.logMaxSize ? parseSize(args.logMaxSize) : undefined,
+      maxFiles: args.logMaxFiles,
+    });
+  }
+
+  const logFormat = args.logFormat || "text";
+  if (logFormat !== "text" && logFormat !== "json") {
+    throw new Error(
+      `Invalid log format: ${args.logFormat} (expected text or json)`
+    );
+  }
+  if (logFormat === "text") {
+    return undefined;
+  }
+  if (args.ui) {
+    throw new Error("--ui cannot be combined with --log-format json");
+  }
+
+  // Keep stdout for the JSON output itself
+  return new JsonLogger({
+    level,
+    stream: format === "text" ? process.stdout : process.stderr,
+  });
+}
+
+interface ResolvedSettings extends MergedSettings {
+  /** Project config file the settings were read from */
+  file?: string;
+  profile?: string;
+}
+
+/**
+ * Parse `--header "Name: value"` flags
+ */
+function parseHeaders(values: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const value of values) {
+    const separator = value.indexOf(":");
+    const name = value.slice(0, separator).trim();
+    if (separator === -1 || !name) {
+      throw new Error(`Invalid header: ${value} (expected "Name: value")`);
+    }
+    headers[name] = value.slice(separator + 1).trim();
+  }
+
+  return headers;
+}
+
+/**
+ * Runner options set by flags
+ */
+function getFlagOptions(args: CliArgs): SettingsLayer["options"] {
+  return {
+    baseUrl: args.url,
+    cronSecret: args.secret,
+    configPath: args.config,
+    verbose: args.verbose,
+    filter: args.filter,
+    timezone: args.timezone,
+    overlap: args.overlap,
+    retry: { maxAttempts: args.retry, baseDelay: args.retryDelay },
+    timeout: args.timeout,
+    headers: args.headers ? parseHeaders(args.headers) : undefined,
+    vercelEmulation: args.noVercelEmulation ? false : undefined,
+    history: { file: args.historyFile },
+    stateFile: args.stateFile,
+    waitForServer: {
+      timeout: args.waitForServer
+        ? parseDuration(args.waitForServer)
+        : undefined,
+      path: args.healthPath,
+    },
+    alerts: {
+      webhookUrl: args.alertWebhook,
+      format: args.alertFormat,
+      failureThreshold: args.alertAfter,
+      repeatInterval: args.alertRepeat
+        ? parseDuration(args.alertRepeat)
+        : undefined,
+    },
+    catchUp: {
+      mode: args.catchUp,
+      maxAge: args.catchUpMaxAge
+        ? parseDuration(args.catchUpMaxAge)
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Merge the runner options, lowest precedence first: the CLI's defaults, the
+ * CRON_SECRET env var, the project config, its profile, then the flags
+ */
+function resolveSettings(args: CliArgs): ResolvedSettings {
+  const project = findProjectConfig();
+  if (args.profile && !project) {
+    throw new Error(
+      `--profile requires ${PROJECT_CONFIG_FILE} or a "${PACKAGE_JSON_KEY}" key in package.json`
+    );
+  }
+
+  const { profile, layers } = project
+    ? getProfileLayers(project, args.profile)
+    : { profile: undefined, layers: [] };
+  const settings = mergeSettings([
+    {
+      source: "default",
+      options: {
+        catchUp: { mode: "none" },
+        waitForServer: args.serverCommand
+          ? { timeout: parseDuration(DEFAULT_SERVER_WAIT) }
+          : undefined,
+      },
+    },
+    {
+      source: "CRON_SECRET",
+      options: { cronSecret: process.env.CRON_SECRET || undefined },
+    },
+    ...layers,
+    { source: "command line", options: getFlagOptions(args) },
+  ]);
+
+  if (args.noHistory) {
+    delete settings.options.history;
+    for (const key of Object.keys(settings.sources)) {
+      if (key.startsWith("history.")) {
+        delete settings.sources[key];
+      }
+    }
+    settings.sources.history = "command line";
+  }
+
+  // Fire times are only kept for catch-up, unless a file is set explicitly
+  if (
+    settings.options.stateFile === undefined &&
+    settings.options.catchUp?.mode !== "none"
+  ) {
+    settings.options.stateFile = DEFAULT_STATE_FILE;
+    settings.sources.stateFile = "default";
+  }
+
+  return { ...settings, file: project?.file, profile };
+}
+
+function formatSetting(key: string, value: unknown): string {
+  if (key === "cronSecret" && value) {
+    return "********";
+  }
+  if (value === undefined) {
+    return "off";
+  }
+
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Print each effective runner option with the source it came from
+ */
+function printSettings(settings: ResolvedSettings, format: OutputFormat): void {
+  const values = flattenSettings(settings.options);
+  const keys = Object.keys(settings.sources).sort();
+
+  if (format !== "text") {
+    const entries = keys.map((key) => [
+      key,
+      {
+        value:
+          key === "cronSecret" ? formatSetting(key, values[key]) : values[key],
+        source: settings.sources[key],
+      },
+    ]);
+    printJson(
+      {
+        file: settings.file ?? null,
+        profile: settings.profile ?? null,
+        settings: Object.fromEntries(entries),
+      },
+      format
+    );
+    return;
+  }
+
+  const profile = settings.profile ? `, profile "${settings.profile}"` : "";
+  console.log(
+    settings.file
+      ? `\nSettings from ${settings.file}${profile}:\n`
+      : `\nNo ${PROJECT_CONFIG_FILE} found, settings:\n`
+  );
+
+  const width = Math.max(...keys.map((key) => key.length));
+  const rows = keys.map((key) => ({
+    key,
+    value: formatSetting(key, values[key]),
+  }));
+  const valueWidth = Math.max(...rows.map((row) => row.value.length));
+  for (const { key, value } of rows) {
+    console.log(
+      `  ${key.padEnd(width)}  ${value.padEnd(valueWidth)}  ${settings.sources[key]}`
+    );
+  }
+  console.log("");
+}
+
+/**
+ * One-line summary of a job's request settings for --list, e.g.
+ * `POST /api/sync?full=true (headers: X-Source, body: 17 bytes)`. Header
+ * values are left out as they often hold tokens
+ */
+function formatJobRequest(job: ConfiguredCronJob): string {
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(job.query ?? {})) {
+    query.append(name, String(value));
+  }
+  const separator = job.path.includes("?") ? "&" : "?";
+  const url = job.query ? `${job.path}${separator}${query}` : job.path;
+
+  const details: string[] = [];
+  if (job.headers) {
+    details.push(`headers: ${Object.keys(job.headers).join(", ")}`);
+  }
+  if (job.body !== undefined) {
+    const body =
+      typeof job.body === "string" ? job.body : JSON.stringify(job.body);
+    details.push(`body: ${Buffer.byteLength(body)} bytes`);
+  }
+
+  const method = job.method?.toUpperCase() ?? "GET";
+  return `${method} ${url}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+/**
+ * Print a value as JSON, or one array item per line in ndjson
+ */
+function printJson(value: unknown, format: OutputFormat): void {
+  if (format === "ndjson") {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      console.log(JSON.stringify(item));
+    }
+    return;
+  }
+
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function printStats(
+  runner: CronRunner,
+  title: string,
+  format: OutputFormat = "text"
+): void {
+  if (format !== "text") {
+    console.log(JSON.stringify(statsRecord(runner.getStats())));
+    return;
+  }
+
+  const stats = runner.getStats();
+  console.log(`\n${title}:`);
+  console.log(`  Total jobs: ${stats.totalJobs}`);
+  console.log(`  Successful executions: ${stats.successfulExecutions}`);
+  console.log(`  Failed executions: ${stats.failedExecutions}`);
+  console.log(`  Skipped executions: ${stats.skippedExecutions}`);
+  console.log(`  Queued executions: ${stats.queuedExecutions}`);
+
+  const jobs = Object.entries(stats.jobs);
+  if (jobs.length === 0) {
+    return;
+  }
+
+  console.log("\nBy job:");
+  for (const [jobPath, job] of jobs) {
+    const icon = job.consecutiveFailures > 0 ? "✗" : "✓";
+    const streak =
+      job.consecutiveFailures > 1
+        ? ` (${job.consecutiveFailures} in a row)`
+        : "";
+    const skipped =
+      job.skippedExecutions > 0 ? `, ${job.skippedExecutions} skipped` : "";
+    const durations =
+      job.minDuration !== undefined
+        ? `  min/avg/p95 ${job.minDuration}/${job.avgDuration}/${job.p95Duration}ms`
+        : "";
+
+    console.log(`  ${icon} ${jobPath}`);
+    console.log(
+      `    ${job.successfulExecutions} succeeded, ${job.failedExecutions} failed${streak}${skipped}${durations}`
+    );
+    if (job.lastSuccess) {
+      console.log(`    Last success: ${job.lastSuccess.toISOString()}`);
+    }
+    if (job.lastFailure) {
+      console.log(
+        `    Last failure: ${job.lastFailure.toISOString()} - ${job.lastError}`
+      );
+    }
+  }
+}
+
+// Failures are already logged by the runner, whatever the verbosity
+function printResult(result: CronExecutionResult): void {
+  if (result.success) {
+    console.log(
+      `✓ ${result.path} (${result.statusCode}) - ${result.duration}ms`
+    );
+  }
+}
+
+async function runAllJobs(runner: CronRunner, quiet = false): Promise<void> {
+  for (const job of runner.getJobStates()) {
+    const result = await runner.triggerJob(job.path);
+    if (!quiet) {
+      printResult(result);
+    }
+  }
+}
+
+const STDIN_HELP = `
+Commands:
+  run [path]      Run a job now, or every job without a path
+  pause <path>    Stop scheduling a job
+  resume <path>   Resume a paused job
+  status          Show every job's state
+  stats           Show execution statistics
+  help            Show this list
+`;
+
+async function handleCommand(
+  runner: CronRunner,
+  line: string,
+  timezone: string,
+  format: OutputFormat
+): Promise<void> {
+  const [command, jobPath] = line.trim().split(/\s+/);
+  // In JSON modes the runner's events already report runs, pauses and resumes
+  const json = format !== "text";
+
+  switch (command) {
+    case "":
+    case undefined:
+      return;
+    case "run":
+      if (jobPath) {
+        const result = await runner.triggerJob(jobPath);
+        if (!json) {
+          printResult(result);
+        }
+      } else {
+        await runAllJobs(runner, json);
+      }
+      return;
+    case "pause":
+    case "resume":
+      if (!jobPath) {
+        throw new Error(`Usage: ${command} <path>`);
+      }
+      if (command === "pause") {
+        runner.pauseJob(jobPath);
+      } else {
+        runner.resumeJob(jobPath);
+      }
+      if (!json) {
+        console.log(`${command === "pause" ? "Paused" : "Resumed"} ${jobPath}`);
+      }
+      return;
+    case "status":
+      if (json) {
+        console.log(JSON.stringify(statusRecord(runner.getJobStates())));
+        return;
+      }
+      for (const job of runner.getJobStates()) {
+        const next = job.nextRun
+          ? formatZonedTime(job.nextRun, timezone)
+          : "-";
+        const last = job.lastResult ? job.lastResult.outcome : "-";
+        const state = job.paused ? "paused" : job.running ? "running" : "idle";
+        console.log(`  ${job.path}  ${state}  next: ${next}  last: ${last}`);
+      }
+      return;
+    case "stats":
+      printStats(runner, "Statistics", format);
+      return;
+    case "help":
+      // Keep stdout parseable in JSON modes
+      (json ? console.error : console.log)(STDIN_HELP);
+      return;
+    default:
+      throw new Error(`Unknown command: ${command} (type "help")`);
+  }
+}
+
 async function main(): Promise<void> {
-  const args = parseArgs();
+  let args: CliArgs;
+  try {
+    args = parseArgs();
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    console.error(`Run "nextjs-crons --help" for usage.`);
+    process.exit(1);
+  }
 
   if (args.help) {
     printHelp();
     process.exit(0);
   }
 
+  let format: OutputFormat;
+  let settings: ResolvedSettings;
+  try {
+    format = getOutputFormat(args);
+    settings = resolveSettings(args);
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  const { options } = settings;
+
+  if (args.printConfig) {
+    printSettings(settings, format);
+    process.exit(0);
+  }
+
+  if (args.command === "validate") {
+    try {
+      const runner = new CronRunner({
+        baseUrl: "http://localhost:3000", // Dummy URL for validate mode
+        configPath: options.configPath,
+      });
+      const plan = args.plan || "hobby";
+      const issues = runner.checkVercelCompatibility(plan);
+
+      if (format === "json") {
+        printJson({ plan, compatible: issues.length === 0, issues }, format);
+        process.exit(issues.length === 0 ? 0 : 1);
+      }
+      if (format === "ndjson") {
+        printJson(issues, format);
+        process.exit(issues.length === 0 ? 0 : 1);
+      }
+
+      if (issues.length === 0) {
+        console.log(
+          `✓ All cron jobs are compatible with the Vercel ${plan} plan`
+        );
+        process.exit(0);
+      }
+
+      console.error(
+        `\nFound ${issues.length} incompatibility(ies) with the Vercel ${plan} plan:\n`
+      );
+      for (const issue of issues) {
+        const target = issue.path
+          ? `${issue.path} (${issue.schedule})`
+          : "vercel.json";
+        console.error(`  ✗ ${target}: ${issue.reason}`);
+      }
+      console.error("");
+
+      process.exit(1);
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+
+  if (args.command === "simulate") {
+    try {
+      if (!args.from || !args.to) {
+        throw new Error("simulate requires --from and --to");
+      }
+
+      const runner = new CronRunner({
+        baseUrl: "http://localhost:3000", // Dummy URL for simulate mode
+        configPath: options.configPath,
+        filter: options.filter,
+        timezone: options.timezone,
+        jobs: options.jobs,
+        localConfigPath: options.localConfigPath,
+      });
+      const timezone = options.timezone || "UTC";
+      const fires = runner.simulate(new Date(args.from), new Date(args.to));
+
+      if (format !== "text") {
+        printJson(fires, format);
+        process.exit(0);
+      }
+
+      console.log(
+        `\n${fires.length} fire(s) between ${args.from} and ${args.to}:\n`
+      );
+      for (const fire of fires) {
+        const utc = timezone === "UTC" ? "" : `  ${fire.time.toISOString()}`;
+        console.log(
+          `  ${formatZonedTime(fire.time, timezone)}${utc}  ${fire.path}`
+        );
+      }
+      console.log("");
+
+      process.exit(0);
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+
+  if (args.command === "history") {
+    try {
+      printHistory(
+        args,
+        options.history?.file || DEFAULT_HISTORY_FILE,
+        format
+      );
+      process.exit(0);
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+
   // List mode doesn't require URL
   if (args.list) {
     try {
       const runner = new CronRunner({
         baseUrl: "http://localhost:3000", // Dummy URL for list mode
-        configPath: args.config,
-        verbose: args.verbose,
-        filter: args.filter,
+        configPath: options.configPath,
+        verbose: options.verbose,
+        filter: options.filter,
+        timezone: options.timezone,
+        jobs: options.jobs,
+        localConfigPath: options.localConfigPath,
       });
 
       const jobs = runner.listJobs();
+      const timezone = options.timezone || "UTC";
+
+      if (format !== "text") {
+        printJson(
+          jobs.map((job) =>
+            args.next
+              ? { ...job, nextRuns: runner.getNextRuns(job.path, args.next) }
+              : job
+          ),
+          format
+        );
+        process.exit(0);
+      }
 
       console.log(`\nFound ${jobs.length} cron job(s):\n`);
 
       for (const job of jobs) {
-        console.log(`  ${job.path}`);
+        const disabled = job.enabled === false;
+        console.log(`  ${job.path}${disabled ? " (disabled)" : ""}`);
+        if (job.description) {
+          console.log(`    ${job.description}`);
+        }
         console.log(`    Schedule: ${job.schedule}`);
+        if (job.method || job.query || job.headers || job.body !== undefined) {
+          console.log(`    Request: ${formatJobRequest(job)}`);
+        }
+        if (job.timeout !== undefined) {
+          console.log(`    Timeout: ${job.timeout}ms`);
+        }
+        if (args.next && !disabled) {
+          console.log(`    Next runs:`);
+          for (const run of runner.getNextRuns(job.path, args.next)) {
+            console.log(`      ${formatZonedTime(run, timezone)}`);
+          }
+        }
         console.log("");
       }
 
@@ -153,32 +1194,71 @@ async function main(): Promise<void> {
     }
   }
 
-  if (!args.url) {
-    console.error("Error: --url is required\n");
+  if (!options.baseUrl) {
+    console.error(
+      `Error: --url is required (or baseUrl in ${PROJECT_CONFIG_FILE})\n`
+    );
     printHelp();
     process.exit(1);
   }
 
+  let devServer: DevServer | undefined;
   try {
+    const logger = createLogger(args, options.verbose, format);
     const runner = new CronRunner({
-      baseUrl: args.url,
-      cronSecret: args.secret,
-      configPath: args.config,
-      verbose: args.verbose,
-      filter: args.filter,
+      ...options,
+      baseUrl: options.baseUrl,
+      // Console log lines would scroll the live table away or break JSON
+      // output
+      verbose: !logger && (args.ui || format !== "text") ? 0 : options.verbose,
+      logger,
+      captureResponse: args.ui || options.captureResponse,
     });
 
+    // ndjson streams events in every mode. json does too in watch mode, while
+    // --once and --execute print a single document once done
+    if (format === "ndjson") {
+      streamEvents(runner, (record) => console.log(JSON.stringify(record)));
+    }
+
+    if (args.serverCommand && (args.once || args.execute)) {
+      throw new Error("A server command (-- <command>) requires watch mode");
+    }
+
+    if (args.report) {
+      if (!args.once && !args.execute) {
+        throw new Error("--report requires --once or --execute");
+      }
+      // Fail before running anything if the report option is invalid
+      parseReport(args.report);
+    }
+
     // Execute specific cron
     if (args.execute) {
-      console.log(`Executing cron: ${args.execute}`);
+      if (format === "text") {
+        console.log(`Executing cron: ${args.execute}`);
+      }
       const result = await runner.executeOne(args.execute);
+      if (args.report) {
+        writeReport(args.report, [result]);
+      }
+
+      if (format !== "text") {
+        if (format === "json") {
+          printJson({ results: [result], stats: runner.getStats() }, format);
+        } else {
+          printStats(runner, "Statistics", format);
+        }
+        process.exit(result.success ? 0 : 1);
+      }
 
       if (result.success) {
         console.log(`✓ Success (${result.statusCode}) - ${result.duration}ms`);
         process.exit(0);
       } else {
+        const label = result.outcome === "timeout" ? "Timeout" : "Failed";
         console.error(
-          `✗ Failed: ${result.error || `Status ${result.statusCode}`}`
+          `✗ ${label}: ${result.error || `Status ${result.statusCode}`}`
         );
         process.exit(1);
       }
@@ -187,41 +1267,183 @@ async function main(): Promise<void> {
     // Execute all crons once
     if (args.once) {
       const results = await runner.executeAll();
+      if (args.report) {
+        writeReport(args.report, results);
+      }
       const stats = runner.getStats();
 
+      if (format === "json") {
+        printJson({ results, stats }, format);
+      } else if (format === "ndjson") {
+        printStats(runner, "Statistics", format);
+      }
+      if (format !== "text") {
+        process.exit(stats.failedExecutions > 0 ? 1 : 0);
+      }
+
       console.log(`\nExecution completed:`);
       console.log(`  Total: ${results.length}`);
       console.log(`  Success: ${stats.successfulExecutions}`);
       console.log(`  Failed: ${stats.failedExecutions}`);
+      if (stats.skippedExecutions > 0) {
+        console.log(`  Skipped: ${stats.skippedExecutions}`);
+      }
 
       process.exit(stats.failedExecutions > 0 ? 1 : 0);
     }
 
     // Start in watch mode
-    await runner.start();
+    if (format === "json") {
+      streamEvents(runner, (record) => console.log(JSON.stringify(record)));
+    }
+    const timezone = options.timezone || "UTC";
+    let ui: TerminalUI | undefined;
+    if (args.ui && format !== "text") {
+      throw new Error("--ui cannot be combined with --output json or ndjson");
+    }
+    if (args.ui) {
+      if (!process.stdin.isTTY || !process.stdout.isTTY) {
+        throw new Error("--ui requires an interactive terminal");
+      }
 
-    console.log("\nCron runner is active. Press Ctrl+C to stop.\n");
+      if (args.serverCommand) {
+        throw new Error("--ui cannot be combined with a server command");
+      }
 
-    // Graceful shutdown
-    process.on("SIGINT", () => {
-      console.log("\n\nShutting down...");
+      ui = new TerminalUI(runner, {
+        timezone,
+        onQuit: () => process.emit("SIGINT"),
+      });
+    }
+
+    let controlServer: ControlServer | undefined;
+    let metricsServer: MetricsServer | undefined;
+    let shuttingDown = false;
+    const shutdown = async (
+      code: number,
+      signal: NodeJS.Signals = "SIGTERM"
+    ) => {
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
+
+      ui?.stop();
       runner.stop();
+      controlServer?.stop();
+      metricsServer?.stop();
+      if (signal === "SIGINT") {
+        printStats(runner, "Final statistics", format);
+      }
+      await Promise.all([
+        runner.flushAlerts(ALERT_FLUSH_TIMEOUT),
+        devServer?.stop(signal),
+      ]);
 
-      const stats = runner.getStats();
-      console.log("\nFinal statistics:");
-      console.log(`  Total jobs: ${stats.totalJobs}`);
-      console.log(`  Successful executions: ${stats.successfulExecutions}`);
-      console.log(`  Failed executions: ${stats.failedExecutions}`);
+      process.exit(code);
+    };
 
-      process.exit(0);
+    // Graceful shutdown, registered before start() so the server command is
+    // stopped while the runner waits for it
+    process.on("SIGINT", () => {
+      if (format === "text" && !shuttingDown) {
+        console.log("\n\nShutting down...");
+      }
+      shutdown(0, "SIGINT");
     });
+    process.on("SIGTERM", () => shutdown(0));
 
-    process.on("SIGTERM", () => {
-      runner.stop();
-      process.exit(0);
+    if (args.serverCommand) {
+      const name = args.serverCommand.join(" ");
+      devServer = new DevServer({
+        command: args.serverCommand,
+        // Keep stdout for the JSON output itself
+        stdout: format === "text" ? process.stdout : process.stderr,
+      });
+      devServer.start().then(
+        ({ code, signal }) => {
+          if (!shuttingDown) {
+            console.error(
+              `\n${name} exited with ${signal ?? `code ${code}`}, stopping`
+            );
+            shutdown(code ?? 1);
+          }
+        },
+        (error) => {
+          console.error("Error:", error.message);
+          shutdown(1);
+        }
+      );
+    }
+
+    // Created before start() so catch-up runs are counted, and so /healthz
+    // answers "stopped" until every job is scheduled
+    if (args.metricsPort !== undefined) {
+      if (isNaN(args.metricsPort)) {
+        throw new Error("--metrics-port must be a number");
+      }
+
+      metricsServer = new MetricsServer(runner, {
+        port: args.metricsPort,
+        host: args.metricsHost,
+      });
+      const metricsUrl = await metricsServer.start();
+      (format === "text" ? console.log : console.error)(
+        `\nMetrics listening on ${metricsUrl}/metrics`
+      );
+    }
+
+    await runner.start();
+
+    if (args.controlPort !== undefined) {
+      if (isNaN(args.controlPort)) {
+        throw new Error("--control-port must be a number");
+      }
+
+      controlServer = new ControlServer(runner, {
+        port: args.controlPort,
+        host: args.controlHost,
+        allowedHosts: args.controlAllowedHosts,
+      });
+      const controlUrl = await controlServer.start();
+      (format === "text" ? console.log : console.error)(
+        `\nDashboard and control API listening on ${controlUrl}`
+      );
+    }
+
+    const reportError = (error: unknown) =>
+      console.error("Error:", error instanceof Error ? error.message : error);
+
+    if (ui) {
+      ui.start();
+    } else {
+      if (format === "text") {
+        console.log(
+          `\nCron runner is active (schedules in ${timezone}). Press Ctrl+C to stop.`
+        );
+        if (!args.noStdin) {
+          console.log(`Type "help" for commands.\n`);
+        }
+      }
+
+      // Reading a terminal from a background job stops the process (SIGTTIN)
+      if (!args.noStdin) {
+        readline
+          .createInterface({ input: process.stdin })
+          .on("line", (line) => {
+            handleCommand(runner, line, timezone, format).catch(reportError);
+          });
+      }
+    }
+
+    // SIGUSR1 runs every job now, SIGUSR2 prints statistics
+    process.on("SIGUSR1", () => {
+      runAllJobs(runner, format !== "text").catch(reportError);
     });
+    process.on("SIGUSR2", () => printStats(runner, "Statistics", format));
   } catch (error) {
     console.error("Error:", error instanceof Error ? error.message : error);
+    await devServer?.stop();
     process.exit(1);
   }
 }
@@ -0,0 +1,263 @@
+import * as http from "http";
+import { isIP } from "net";
+import { HttpError, HttpListener, sendJson } from "./http-listener";
+import { CronRunner } from "./runner";
+import {
+  ControlServerOptions,
+  CronExecutionResult,
+  CronJobState,
+} from "./types";
+
+/**
+ * The part of CronRunner the control server drives
+ */
+export type ControlledRunner = Pick<
+  CronRunner,
+  | "getStats"
+  | "getJobStates"
+  | "getJobState"
+  | "triggerJob"
+  | "pauseJob"
+  | "resumeJob"
+>;
+
+const JOB_ACTIONS = ["trigger", "pause", "resume"] as const;
+type JobAction = (typeof JOB_ACTIONS)[number];
+
+/**
+ * Small HTTP server to inspect and control a running CronRunner, with JSON
+ * endpoints and an HTML dashboard at `/`
+ */
+export class ControlServer extends HttpListener {
+  private readonly runner: ControlledRunner;
+  private readonly allowedHosts: string[];
+
+  constructor(runner: ControlledRunner, options: ControlServerOptions) {
+    super("Control server", options);
+    this.runner = runner;
+    this.allowedHosts = (options.allowedHosts ?? []).map((host) =>
+      host.toLowerCase(),
+    );
+  }
+
+  protected async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    this.checkOrigin(req);
+
+    if (url.pathname === "/" && method === "GET") {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(DASHBOARD_HTML);
+      return;
+    }
+
+    if (url.pathname === "/api/jobs" && method === "GET") {
+      sendJson(res, 200, this.runner.getJobStates());
+      return;
+    }
+
+    if (url.pathname === "/api/stats" && method === "GET") {
+      sendJson(res, 200, this.runner.getStats());
+      return;
+    }
+
+    const match = /^\/api\/jobs\/(\w+)$/.exec(url.pathname);
+    if (match && JOB_ACTIONS.includes(match[1] as JobAction)) {
+      if (method !== "POST") {
+        throw new HttpError(405, `Method not allowed: ${method}`);
+      }
+
+      const body = await readJsonBody(req);
+      const jobPath = typeof body.path === "string" ? body.path : undefined;
+      if (!jobPath) {
+        throw new HttpError(400, 'Missing job "path"');
+      }
+
+      sendJson(res, 200, await this.runAction(match[1] as JobAction, jobPath));
+      return;
+    }
+
+    throw new HttpError(404, `Not found: ${method} ${url.pathname}`);
+  }
+
+  /**
+   * Only answer requests addressed to this server, so that web pages can
+   * neither post to it cross-origin nor reach it through DNS rebinding
+   */
+  private checkOrigin(req: http.IncomingMessage): void {
+    const host = req.headers.host;
+    if (!host || !this.isOwnHost(host)) {
+      throw new HttpError(403, `Forbidden host: ${host ?? "none"}`);
+    }
+
+    const origin = req.headers.origin;
+    if (origin !== undefined && origin !== `http://${host}`) {
+      throw new HttpError(403, `Forbidden origin: ${origin}`);
+    }
+  }
+
+  private isOwnHost(host: string): boolean {
+    const own = new URL(this.getUrl());
+    let requested: URL;
+    try {
+      requested = new URL(`http://${host}`);
+    } catch {
+      return false;
+    }
+
+    const name = requested.hostname.replace(/^\[|\]$/g, "");
+    // Proxies and port mappings change the port, e.g. `cron-runner:80`
+    if (this.allowedHosts.includes(name)) {
+      return true;
+    }
+
+    const ownName = own.hostname.replace(/^\[|\]$/g, "");
+    // DNS rebinding needs a host name, so any address reaching a server bound
+    // to all interfaces is its own, whatever port a container maps it to
+    if (ownName === "0.0.0.0" || ownName === "::") {
+      return name === "localhost" || isIP(name) !== 0;
+    }
+
+    if (requested.port !== own.port) {
+      return false;
+    }
+    return (
+      requested.hostname === own.hostname ||
+      (name === "localhost" && isLoopback(ownName))
+    );
+  }
+
+  private async runAction(
+    action: JobAction,
+    jobPath: string,
+  ): Promise<CronExecutionResult | CronJobState> {
+    try {
+      switch (action) {
+        case "trigger":
+          return await this.runner.triggerJob(jobPath);
+        case "pause":
+          this.runner.pauseJob(jobPath);
+          break;
+        case "resume":
+          this.runner.resumeJob(jobPath);
+          break;
+      }
+    } catch (error) {
+      const message = getErrorMessage(error);
+      const statusCode = /not (found|scheduled)/.test(message) ? 404 : 400;
+      throw new HttpError(statusCode, message);
+    }
+
+    return this.runner.getJobState(jobPath);
+  }
+}
+
+function isLoopback(address: string): boolean {
+  return address === "::1" || address.startsWith("127.");
+}
+
+async function readJsonBody(
+  req: http.IncomingMessage,
+): Promise<Record<string, unknown>> {
+  // Pages can only post JSON to another origin after a CORS preflight, which
+  // this server never allows
+  const contentType = req.headers["content-type"] ?? "";
+  if (contentType.split(";")[0].trim().toLowerCase() !== "application/json") {
+    throw new HttpError(415, "Expected a Content-Type of application/json");
+  }
+
+  let raw = "";
+  for await (const chunk of req) {
+    raw += chunk;
+  }
+
+  if (!raw.trim()) {
+    return {};
+  }
+
+  try {
+    const body = JSON.parse(raw);
+    return body && typeof body === "object" ? body : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const DASHBOARD_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>nextjs-crons</title>
+<style>
+  body { font: 14px system-ui, sans-serif; margin: 2rem; color: #111; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: .4rem .6rem; border-bottom: 1px solid #ddd; }
+  code { font-size: 13px; }
+  .success { color: #15803d; } .failure, .error, .timeout { color: #b91c1c; }
+  .skipped, .paused { color: #a16207; }
+  button { margin-right: .25rem; }
+</style>
+</head>
+<body>
+<h1>nextjs-crons</h1>
+<p id="stats"></p>
+<table>
+  <thead>
+    <tr><th>Path</th><th>Schedule</th><th>Next run</th><th>Last run</th><th>Result</th><th></th></tr>
+  </thead>
+  <tbody id="jobs"></tbody>
+</table>
+<script>
+  const esc = (s) => String(s).replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+  const time = (t) => (t ? new Date(t).toLocaleString() : "-");
+
+  async function action(name, path) {
+    const res = await fetch("/api/jobs/" + name, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ path }),
+    });
+    if (!res.ok) alert((await res.json()).error);
+    refresh();
+  }
+
+  async function refresh() {
+    const [jobs, stats] = await Promise.all([
+      fetch("/api/jobs").then((r) => r.json()),
+      fetch("/api/stats").then((r) => r.json()),
+    ]);
+    document.getElementById("stats").textContent =
+      stats.totalJobs + " job(s), " + stats.successfulExecutions + " succeeded, " +
+      stats.failedExecutions + " failed, " + stats.skippedExecutions + " skipped";
+    document.getElementById("jobs").innerHTML = jobs.map((job) => {
+      const last = job.lastResult;
+      const result = last
+        ? '<span class="' + last.outcome + '">' + esc(last.outcome) + "</span> " +
+          esc(last.statusCode ?? "") + " " + (last.duration ?? "-") + "ms" +
+          (last.error ? "<br><small>" + esc(last.error) + "</small>" : "")
+        : "-";
+      const p = esc(JSON.stringify(job.path));
+      return "<tr><td><code>" + esc(job.path) + "</code></td>" +
+        "<td><code>" + esc(job.schedule) + "</code></td>" +
+        "<td" + (job.paused ? ' class="paused">paused' : ">" + time(job.nextRun)) + "</td>" +
+        "<td>" + time(last && last.timestamp) + "</td>" +
+        "<td>" + result + "</td>" +
+        "<td><button onclick='action(\\"trigger\\", " + p + ")'>Run</button>" +
+        "<button onclick='action(\\"" + (job.paused ? "resume" : "pause") + "\\", " + p + ")'>" +
+        (job.paused ? "Resume" : "Pause") + "</button></td></tr>";
+    }).join("");
+  }
+
+  refresh();
+  setInterval(refresh, 2000);
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,150 @@
+import { ChildProcess, spawn } from "child_process";
+import * as path from "path";
+import * as readline from "readline";
+
+export interface DevServerOptions {
+  /**
+   * Command and its arguments
+   * @example ["next", "dev"]
+   */
+  command: string[];
+
+  /**
+   * Written before each line of the command's output
+   * @default "[<command>] "
+   */
+  prefix?: string;
+
+  /**
+   * Where the command's stdout and stderr lines are written
+   * @default process.stdout and process.stderr
+   */
+  stdout?: { write(chunk: string): unknown };
+  stderr?: { write(chunk: string): unknown };
+
+  /**
+   * Working directory, whose `node_modules/.bin` is added to the PATH
+   * @default process.cwd()
+   */
+  cwd?: string;
+}
+
+export interface DevServerExit {
+  /** Exit code, or null if the process was killed by a signal */
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * Runs the app's server (e.g. `next dev`) as a child process and prefixes its
+ * output so it can share a terminal with the runner's logs
+ */
+export class DevServer {
+  private readonly command: string[];
+  private readonly prefix: string;
+  private readonly stdout: { write(chunk: string): unknown };
+  private readonly stderr: { write(chunk: string): unknown };
+  private readonly cwd: string;
+  private child?: ChildProcess;
+  private exit?: Promise<DevServerExit>;
+
+  constructor(options: DevServerOptions) {
+    if (options.command.length === 0) {
+      throw new Error("A server command is required");
+    }
+
+    this.command = options.command;
+    this.prefix = options.prefix ?? `[${path.basename(options.command[0])}] `;
+    this.stdout = options.stdout ?? process.stdout;
+    this.stderr = options.stderr ?? process.stderr;
+    this.cwd = options.cwd ?? process.cwd();
+  }
+
+  /**
+   * Spawn the command. Resolves with its exit once it ends, and rejects if it
+   * cannot be started
+   */
+  public start(): Promise<DevServerExit> {
+    if (this.child) {
+      throw new Error(`${this.command.join(" ")} is already running`);
+    }
+
+    const [file, ...args] = this.command;
+    const child = spawn(file, args, {
+      cwd: this.cwd,
+      env: {
+        ...process.env,
+        // Like npm scripts, so `next dev` works without npx
+        PATH: [path.join(this.cwd, "node_modules", ".bin"), process.env.PATH]
+          .filter(Boolean)
+          .join(path.delimiter),
+      },
+      // stdin stays with the runner's commands
+      stdio: ["ignore", "pipe", "pipe"],
+      // Resolves .cmd shims such as next.cmd
+      shell: process.platform === "win32",
+    });
+    this.child = child;
+
+    this.forward(child.stdout!, this.stdout);
+    this.forward(child.stderr!, this.stderr);
+
+    this.exit = new Promise((resolve, reject) => {
+      child.once("error", (error) => {
+        reject(
+          new Error(`Failed to start ${this.command[0]}: ${error.message}`),
+        );
+      });
+      // "close" waits for the output streams, so every line is forwarded
+      child.once("close", (code, signal) => resolve({ code, signal }));
+    });
+    return this.exit;
+  }
+
+  private forward(
+    input: NodeJS.ReadableStream,
+    output: { write(chunk: string): unknown },
+  ): void {
+    readline
+      .createInterface({ input, crlfDelay: Infinity })
+      .on("line", (line) => output.write(`${this.prefix}${line}\n`));
+  }
+
+  /**
+   * Whether the command was started and has not exited yet
+   */
+  public isRunning(): boolean {
+    return (
+      this.child !== undefined &&
+      this.child.exitCode === null &&
+      this.child.signalCode === null
+    );
+  }
+
+  /**
+   * Send `signal` and wait for the command to exit, killing it if it is still
+   * running after `timeout` milliseconds
+   */
+  public async stop(
+    signal: NodeJS.Signals = "SIGTERM",
+    timeout = 5000,
+  ): Promise<DevServerExit | undefined> {
+    const child = this.child;
+    if (!child || !this.exit) {
+      return undefined;
+    }
+
+    const exit = this.exit.catch(() => undefined);
+    if (!this.isRunning()) {
+      return exit;
+    }
+
+    child.kill(signal);
+    const timer = setTimeout(() => child.kill("SIGKILL"), timeout);
+    try {
+      return await exit;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
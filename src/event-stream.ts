@@ -0,0 +1,81 @@
+import { CronRunner } from "./runner";
+import {
+  CronEventRecord,
+  CronJobState,
+  CronRunnerEvents,
+  CronRunnerStats,
+} from "./types";
+
+type EventName = keyof CronRunnerEvents;
+
+/**
+ * Build the record of each event from its listener arguments
+ */
+const RECORD_FIELDS: {
+  [E in EventName]: (
+    ...args: Parameters<CronRunnerEvents[E]>
+  ) => Omit<CronEventRecord, "event" | "time">;
+} = {
+  started: (jobs) => ({ jobs }),
+  stopped: () => ({}),
+  "catchup:finished": (results) => ({ results }),
+  "job:scheduled": (job) => ({ job }),
+  "job:unscheduled": (job) => ({ job }),
+  "job:paused": (job) => ({ job }),
+  "job:resumed": (job) => ({ job }),
+  "job:start": (job) => ({ job }),
+  "job:retry": (job, attempt, delay) => ({ job, attempt, delay }),
+  "job:success": (job, result) => ({ job, result }),
+  "job:failure": (job, result) => ({ job, result }),
+  "job:skipped": (job, result) => ({ job, result }),
+  "config:reloaded": (diff) => ({ diff }),
+  "config:error": (error) => ({ error: error.message }),
+  "server:ready": (url) => ({ url }),
+  "server:down": (url) => ({ url }),
+};
+
+/**
+ * Call `onRecord` with a `CronEventRecord` for every event the runner emits.
+ * Returns a function that unsubscribes
+ */
+export function streamEvents(
+  runner: Pick<CronRunner, "on" | "off">,
+  onRecord: (record: CronEventRecord) => void,
+): () => void {
+  const listeners = (Object.keys(RECORD_FIELDS) as EventName[]).map(
+    (event) => {
+      const toFields = RECORD_FIELDS[event] as (
+        ...args: unknown[]
+      ) => Omit<CronEventRecord, "event" | "time">;
+      const listener = (...args: unknown[]) =>
+        onRecord({
+          event,
+          time: new Date().toISOString(),
+          ...toFields(...args),
+        });
+
+      runner.on(event, listener as CronRunnerEvents[typeof event]);
+      return { event, listener };
+    },
+  );
+
+  return () => {
+    for (const { event, listener } of listeners) {
+      runner.off(event, listener as CronRunnerEvents[typeof event]);
+    }
+  };
+}
+
+/**
+ * Record of a statistics snapshot
+ */
+export function statsRecord(stats: CronRunnerStats): CronEventRecord {
+  return { event: "stats", time: new Date().toISOString(), stats };
+}
+
+/**
+ * Record of a snapshot of every job's state
+ */
+export function statusRecord(states: CronJobState[]): CronEventRecord {
+  return { event: "status", time: new Date().toISOString(), states };
+}
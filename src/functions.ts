@@ -0,0 +1,91 @@
+import { VercelFunctionConfig } from "./types";
+
+const ROUTE_EXTENSIONS = ["ts", "tsx", "js", "jsx", "mjs", "cjs"];
+
+/**
+ * Convert a `functions` glob from vercel.json into a regular expression.
+ * Supports `**`, `*`, `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  let inGroup = false;
+  const source = glob.replace(/^\.\//, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === "*" && source[i + 1] === "*") {
+      if (source[i + 2] === "/") {
+        pattern += "(?:.*/)?";
+        i += 2;
+      } else {
+        pattern += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      pattern += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      pattern += ")";
+    } else if (char === "," && inGroup) {
+      pattern += "|";
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * List the source files that can serve a route path, relative to the project
+ * root, for the App Router, the Pages Router and the `api/` directory.
+ */
+export function getRouteFileCandidates(routePath: string): string[] {
+  const route = routePath.split("?")[0].replace(/\/+$/, "");
+  const candidates: string[] = [];
+
+  for (const ext of ROUTE_EXTENSIONS) {
+    for (const root of ["app", "src/app"]) {
+      candidates.push(`${root}${route}/route.${ext}`);
+    }
+    for (const root of ["pages", "src/pages"]) {
+      candidates.push(`${root}${route}.${ext}`, `${root}${route}/index.${ext}`);
+    }
+    candidates.push(`${route.slice(1)}.${ext}`);
+  }
+
+  return candidates;
+}
+
+/**
+ * Find the `maxDuration` (in seconds) that applies to a route path
+ */
+export function findMaxDuration(
+  functions: Record<string, VercelFunctionConfig> | undefined,
+  routePath: string,
+): number | undefined {
+  if (!functions) {
+    return undefined;
+  }
+
+  const candidates = getRouteFileCandidates(routePath);
+
+  for (const [glob, config] of Object.entries(functions)) {
+    if (config.maxDuration === undefined) {
+      continue;
+    }
+
+    const regex = globToRegExp(glob);
+    if (candidates.some((file) => regex.test(file))) {
+      return config.maxDuration;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CronExecutionResult,
+  ExecutionHistoryOptions,
+  HistoryQuery,
+} from "./types";
+
+/**
+ * Keeps the most recent execution results in a fixed-size ring buffer,
+ * optionally appending every result to a JSON-lines file. The file is
+ * trimmed to the last `limit` results once it holds twice as many.
+ */
+export class ExecutionHistory {
+  private entries: CronExecutionResult[] = [];
+  private next = 0;
+  private readonly limit: number;
+  private readonly file?: string;
+  /** Results in the file, including the ones trimmed from the buffer */
+  private fileEntries = 0;
+
+  constructor(options: ExecutionHistoryOptions = {}) {
+    this.limit = options.limit ?? 1000;
+    this.file = options.file ? path.resolve(options.file) : undefined;
+
+    if (!Number.isInteger(this.limit) || this.limit < 1) {
+      throw new Error("history.limit must be a positive integer");
+    }
+
+    if (this.file) {
+      const entries = ExecutionHistory.readFile(this.file);
+      for (const entry of entries) {
+        this.push(entry);
+      }
+      this.fileEntries = entries.length;
+      this.trimFile();
+    }
+  }
+
+  /**
+   * Read every result stored in a JSON-lines history file, oldest first.
+   * Lines that cannot be parsed are ignored.
+   */
+  public static readFile(file: string): CronExecutionResult[] {
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+
+    const results: CronExecutionResult[] = [];
+    const lines = fs.readFileSync(file, "utf-8").split("\n");
+
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        const entry = JSON.parse(line);
+        results.push({ ...entry, timestamp: new Date(entry.timestamp) });
+      } catch {
+        // Partially written line, skip it
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Filter results, newest first
+   */
+  public static filter(
+    results: CronExecutionResult[],
+    query: HistoryQuery = {},
+  ): CronExecutionResult[] {
+    const matches = results
+      .filter(
+        (result) =>
+          (!query.path || result.path === query.path) &&
+          (!query.status || result.outcome === query.status) &&
+          (!query.since || result.timestamp >= query.since),
+      )
+      .reverse();
+
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  private push(result: CronExecutionResult): void {
+    if (this.entries.length < this.limit) {
+      this.entries.push(result);
+    } else {
+      this.entries[this.next] = result;
+    }
+
+    this.next = (this.next + 1) % this.limit;
+  }
+
+  /**
+   * Record a result, and append it to the history file if there is one
+   */
+  public add(result: CronExecutionResult): void {
+    this.push(result);
+
+    if (this.file) {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.appendFileSync(this.file, `${JSON.stringify(result)}\n`);
+      this.fileEntries++;
+      this.trimFile();
+    }
+  }
+
+  /**
+   * Rewrite the file with the buffered results once it holds twice the
+   * limit, so that it stays bounded without a rewrite on every result
+   */
+  private trimFile(): void {
+    if (!this.file || this.fileEntries < 2 * this.limit) {
+      return;
+    }
+
+    const entries = this.toArray();
+    fs.writeFileSync(
+      this.file,
+      entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""),
+    );
+    this.fileEntries = entries.length;
+  }
+
+  /**
+   * Results in the buffer, oldest first
+   */
+  public toArray(): CronExecutionResult[] {
+    if (this.entries.length < this.limit) {
+      return [...this.entries];
+    }
+
+    return [
+      ...this.entries.slice(this.next),
+      ...this.entries.slice(0, this.next),
+    ];
+  }
+
+  public query(query: HistoryQuery = {}): CronExecutionResult[] {
+    return ExecutionHistory.filter(this.toArray(), query);
+  }
+}
@@ -0,0 +1,118 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+
+export interface HttpListenerOptions {
+  /**
+   * Port to listen on, 0 picks a free one
+   */
+  port: number;
+
+  /**
+   * Interface to bind to
+   * @default "127.0.0.1"
+   */
+  host?: string;
+}
+
+/**
+ * Error answered with its status code and `{ error: message }`
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export function sendJson(
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+): void {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Base of the runner's HTTP servers: binds, unbinds and turns errors thrown
+ * by `handle()` into JSON responses
+ */
+export abstract class HttpListener {
+  private readonly name: string;
+  private readonly port: number;
+  private readonly host: string;
+  private server?: http.Server;
+
+  constructor(name: string, options: HttpListenerOptions) {
+    this.name = name;
+    this.port = options.port;
+    this.host = options.host ?? "127.0.0.1";
+  }
+
+  protected abstract handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void>;
+
+  /**
+   * Start listening, resolving with the URL the server is reachable at
+   */
+  public start(): Promise<string> {
+    if (this.server) {
+      return Promise.reject(new Error(`${this.name} is already running`));
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        const statusCode =
+          error instanceof HttpError ? error.statusCode : 500;
+        sendJson(res, statusCode, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once("error", (error) => {
+        this.server = undefined;
+        reject(error);
+      });
+      server.listen(this.port, this.host, () => {
+        resolve(this.getUrl());
+      });
+    });
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  public stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    this.server = undefined;
+    return new Promise((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * URL of the running server, e.g. `http://127.0.0.1:8787`
+   */
+  public getUrl(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error(`${this.name} is not running`);
+    }
+
+    const host =
+      address.family === "IPv6" ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+}
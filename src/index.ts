@@ -1,8 +1,67 @@
 export { CronRunner } from './runner';
+export { ExecutionHistory } from './history';
+export { checkVercelCompatibility, VERCEL_PLAN_LIMITS } from './validate';
+export { simulate } from './simulate';
+export { ControlServer } from './control-server';
+export type { ControlledRunner } from './control-server';
+export { streamEvents } from './event-stream';
+export { formatJUnitReport } from './junit';
+export type { JUnitReportOptions } from './junit';
+export { CronMetrics, MetricsServer, DEFAULT_DURATION_BUCKETS } from './metrics';
+export type { MetricsRunner } from './metrics';
+export { TerminalUI } from './ui';
+export type { TerminalUIOptions, TerminalUIRunner } from './ui';
+export { DevServer } from './dev-server';
+export type { DevServerExit, DevServerOptions } from './dev-server';
+export { ConsoleLogger, JsonLogger, FileLogger } from './logger';
+export { getVercelCronHeaders, VERCEL_CRON_USER_AGENT } from './vercel-emulation';
+export type { JsonLoggerOptions, FileLoggerOptions } from './logger';
+export {
+  findProjectConfig,
+  getProfileLayers,
+  mergeSettings,
+  PROJECT_CONFIG_FILE,
+} from './project-config';
+export type {
+  LoadedProjectConfig,
+  MergedSettings,
+  SettingsLayer,
+} from './project-config';
 export type {
   CronRunnerOptions,
   VercelCronConfig,
+  VercelFunctionConfig,
+  VercelPlan,
+  VercelPlanLimits,
+  VercelCompatibilityIssue,
   CronJob,
   CronExecutionResult,
   CronRunnerStats,
+  CronJobStats,
+  CronRunnerEvents,
+  CronEventRecord,
+  CronConfigDiff,
+  CronExecutionAttempt,
+  CronExecutionOutcome,
+  CronJobSettings,
+  ConfiguredCronJob,
+  CronJobState,
+  OverlapPolicy,
+  CatchUpMode,
+  CatchUpOptions,
+  RetryOptions,
+  ExecutionHistoryOptions,
+  HistoryQuery,
+  SimulatedFire,
+  SimulationOptions,
+  ControlServerOptions,
+  CronLogger,
+  LogLevel,
+  WaitForServerOptions,
+  AlertFormat,
+  AlertOptions,
+  AlertPayload,
+  MetricsServerOptions,
+  ProjectConfig,
+  ProjectProfile,
 } from './types';
@@ -0,0 +1,102 @@
+import { CronExecutionResult } from "./types";
+
+export interface JUnitReportOptions {
+  /**
+   * Name of the test suite
+   * @default "nextjs-crons"
+   */
+  name?: string;
+
+  /**
+   * When the run started, defaults to the earliest result
+   */
+  timestamp?: Date;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "");
+}
+
+function seconds(milliseconds = 0): string {
+  return (milliseconds / 1000).toFixed(3);
+}
+
+function getFailureMessage(result: CronExecutionResult): string {
+  if (result.outcome === "skipped") {
+    return result.skipReason ?? "Previous run still in progress";
+  }
+
+  return result.error || `Status ${result.statusCode}`;
+}
+
+function formatTestCase(result: CronExecutionResult, suite: string): string {
+  const open = `    <testcase name="${escapeXml(result.path)}" classname="${escapeXml(suite)}" time="${seconds(result.duration)}"`;
+
+  if (result.success) {
+    return `${open}/>`;
+  }
+
+  const message = escapeXml(getFailureMessage(result));
+  if (result.outcome === "skipped") {
+    return `${open}>\n      <skipped message="${message}"/>\n    </testcase>`;
+  }
+
+  const details = result.attempts
+    .map(
+      (attempt) =>
+        `Attempt ${attempt.attempt}: ${attempt.error ?? `status ${attempt.statusCode}`} (${attempt.duration}ms)`,
+    )
+    .join("\n");
+
+  return [
+    `${open}>`,
+    `      <failure message="${message}" type="${result.outcome}">${escapeXml(details)}</failure>`,
+    "    </testcase>",
+  ].join("\n");
+}
+
+/**
+ * Format execution results as a JUnit XML report, one test case per result
+ * named after the job path
+ */
+export function formatJUnitReport(
+  results: CronExecutionResult[],
+  options: JUnitReportOptions = {},
+): string {
+  const name = options.name ?? "nextjs-crons";
+  const timestamp =
+    options.timestamp ??
+    results.reduce<Date | undefined>(
+      (earliest, result) =>
+        !earliest || result.timestamp < earliest ? result.timestamp : earliest,
+      undefined,
+    ) ??
+    new Date();
+
+  const failures = results.filter(
+    (result) => !result.success && result.outcome !== "skipped",
+  ).length;
+  const skipped = results.filter(
+    (result) => result.outcome === "skipped",
+  ).length;
+  const time = seconds(
+    results.reduce((total, result) => total + (result.duration ?? 0), 0),
+  );
+  const counts = `tests="${results.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${time}"`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" ${counts}>`,
+    `  <testsuite name="${escapeXml(name)}" ${counts} timestamp="${timestamp.toISOString()}">`,
+    ...results.map((result) => formatTestCase(result, name)),
+    "  </testsuite>",
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import { CronJobSettings } from "./types";
+
+const OVERLAP_POLICIES = ["allow", "skip", "queue"];
+/** Methods fetch sends without a body */
+const BODYLESS_METHODS = ["GET", "HEAD"];
+
+interface LocalConfigFileContent {
+  jobs?: Record<string, CronJobSettings>;
+}
+
+/**
+ * Default overlay next to the config file: `vercel.json` becomes
+ * `vercel.local.json`
+ */
+export function getLocalConfigPath(configPath: string): string {
+  return configPath.replace(/(\.[^./\\]+)?$/, ".local$1");
+}
+
+function isStringRecord(value: unknown, types: string[]): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((item) => types.includes(typeof item))
+  );
+}
+
+function invalid(where: string, reason: string): never {
+  throw new Error(`Invalid settings for ${where}: ${reason}`);
+}
+
+/**
+ * Check each setting of one job on its own, `where` naming it in error
+ * messages. Used for every source of settings, which are merged per job.
+ */
+export function checkJobSettingTypes(
+  settings: CronJobSettings,
+  where: string,
+): void {
+  const fail = (reason: string): never => invalid(where, reason);
+
+  if (typeof settings !== "object" || settings === null) {
+    fail("expected an object");
+  }
+
+  const {
+    overlap,
+    enabled,
+    method,
+    headers,
+    // Checked against the method once merged, which may come from another
+    // source
+    body: _body,
+    query,
+    timeout,
+    description,
+    ...unknown
+  } = settings;
+
+  const [unknownKey] = Object.keys(unknown);
+  if (unknownKey) {
+    fail(`unknown setting "${unknownKey}"`);
+  }
+  if (overlap !== undefined && !OVERLAP_POLICIES.includes(overlap)) {
+    fail(`invalid overlap policy ${overlap} (expected allow, skip or queue)`);
+  }
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    fail("enabled must be a boolean");
+  }
+  if (method !== undefined && !/^[A-Za-z]+$/.test(String(method))) {
+    fail(`invalid method ${method}`);
+  }
+  if (headers !== undefined && !isStringRecord(headers, ["string"])) {
+    fail("headers must map names to strings");
+  }
+  if (
+    query !== undefined &&
+    !isStringRecord(query, ["string", "number", "boolean"])
+  ) {
+    fail("query must map names to strings, numbers or booleans");
+  }
+  if (timeout !== undefined && !(typeof timeout === "number" && timeout > 0)) {
+    fail("timeout must be a positive number");
+  }
+  if (description !== undefined && typeof description !== "string") {
+    fail("description must be a string");
+  }
+}
+
+/**
+ * Check the effective settings of one job, merged from every source
+ */
+export function checkJobSettings(
+  settings: CronJobSettings,
+  where: string,
+): void {
+  checkJobSettingTypes(settings, where);
+
+  const method = (settings.method ?? "GET").toUpperCase();
+  if (settings.body !== undefined && BODYLESS_METHODS.includes(method)) {
+    invalid(where, `a body cannot be sent with ${method}`);
+  }
+}
+
+/**
+ * Read the per-job settings of a local overlay file, keyed by cron path.
+ * A missing file means no settings.
+ */
+export function loadLocalConfig(
+  file: string,
+): Record<string, CronJobSettings> {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  let content: LocalConfigFileContent;
+  try {
+    content = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${file}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  const jobs = content?.jobs ?? {};
+  if (typeof jobs !== "object" || Array.isArray(jobs)) {
+    throw new Error(`Invalid ${file}: "jobs" must map cron paths to settings`);
+  }
+
+  for (const [jobPath, settings] of Object.entries(jobs)) {
+    checkJobSettingTypes(settings, `${jobPath} in ${file}`);
+  }
+
+  return jobs;
+}
@@ -0,0 +1,205 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CronLogger, LogLevel } from "./types";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface JsonLoggerOptions {
+  /**
+   * Lowest level written
+   * @default "info"
+   */
+  level?: LogLevel;
+
+  /**
+   * Where lines are written
+   * @default process.stdout
+   */
+  stream?: { write(chunk: string): unknown };
+}
+
+export interface FileLoggerOptions extends JsonLoggerOptions {
+  /**
+   * File the log is appended to
+   */
+  file: string;
+
+  /**
+   * Rotate once the file would grow past this many bytes
+   * @default 10485760 (10 MB)
+   */
+  maxSize?: number;
+
+  /**
+   * Rotated files kept next to the log, as `<file>.1` (newest) to
+   * `<file>.<maxFiles>`
+   * @default 5
+   */
+  maxFiles?: number;
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  "": 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3,
+};
+
+/**
+ * Parse a byte size such as `512`, `500k` or `10m`
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i);
+  if (!match) {
+    throw new Error(`Invalid size "${value}". Expected e.g. 500k or 10m`);
+  }
+
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[match[2].toLowerCase()]);
+}
+
+/**
+ * The default logger: `[time] message` lines on the console. Warnings and
+ * errors always go to stderr, info needs verbose 1 and debug verbose 2.
+ */
+export class ConsoleLogger implements CronLogger {
+  constructor(private readonly verbose = 0) {}
+
+  private write(minVerbose: number, message: string, isError = false): void {
+    if (this.verbose < minVerbose) {
+      return;
+    }
+
+    const line = `[${new Date().toISOString()}] ${message}`;
+    if (isError) {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+
+  public debug(_fields: Record<string, unknown>, message: string): void {
+    this.write(2, message);
+  }
+
+  public info(_fields: Record<string, unknown>, message: string): void {
+    this.write(1, message);
+  }
+
+  public warn(_fields: Record<string, unknown>, message: string): void {
+    this.write(0, message, true);
+  }
+
+  public error(_fields: Record<string, unknown>, message: string): void {
+    this.write(0, message, true);
+  }
+}
+
+function serializeField(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Writes one JSON object per entry: `{ time, level, msg, ...fields }`
+ */
+export class JsonLogger implements CronLogger {
+  private readonly minLevel: number;
+  private readonly stream: { write(chunk: string): unknown };
+
+  constructor(options: JsonLoggerOptions = {}) {
+    this.minLevel = LOG_LEVELS.indexOf(options.level ?? "info");
+    this.stream = options.stream ?? process.stdout;
+  }
+
+  protected write(line: string): void {
+    this.stream.write(line);
+  }
+
+  private entry(
+    level: LogLevel,
+    fields: Record<string, unknown>,
+    message: string,
+  ): void {
+    if (LOG_LEVELS.indexOf(level) < this.minLevel) {
+      return;
+    }
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...fields,
+    };
+    this.write(`${JSON.stringify(entry, serializeField)}\n`);
+  }
+
+  public debug(fields: Record<string, unknown>, message: string): void {
+    this.entry("debug", fields, message);
+  }
+
+  public info(fields: Record<string, unknown>, message: string): void {
+    this.entry("info", fields, message);
+  }
+
+  public warn(fields: Record<string, unknown>, message: string): void {
+    this.entry("warn", fields, message);
+  }
+
+  public error(fields: Record<string, unknown>, message: string): void {
+    this.entry("error", fields, message);
+  }
+}
+
+/**
+ * JSON lines appended to a file that is rotated by size
+ */
+export class FileLogger extends JsonLogger {
+  private readonly file: string;
+  private readonly maxSize: number;
+  private readonly maxFiles: number;
+  private size?: number;
+
+  constructor(options: FileLoggerOptions) {
+    super(options);
+    this.file = options.file;
+    this.maxSize = options.maxSize ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  protected write(line: string): void {
+    if (this.size === undefined) {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      this.size = fs.existsSync(this.file) ? fs.statSync(this.file).size : 0;
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxSize) {
+      this.rotate();
+    }
+
+    fs.appendFileSync(this.file, line);
+    this.size += bytes;
+  }
+
+  /**
+   * Shift `<file>.N` to `<file>.N+1`, dropping the oldest, and move the
+   * current file to `<file>.1`
+   */
+  private rotate(): void {
+    if (this.maxFiles < 1) {
+      fs.rmSync(this.file, { force: true });
+    } else {
+      fs.rmSync(`${this.file}.${this.maxFiles}`, { force: true });
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        if (fs.existsSync(`${this.file}.${index}`)) {
+          fs.renameSync(`${this.file}.${index}`, `${this.file}.${index + 1}`);
+        }
+      }
+      fs.renameSync(this.file, `${this.file}.1`);
+    }
+
+    this.size = 0;
+  }
+}
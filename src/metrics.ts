@@ -0,0 +1,210 @@
+import * as http from "http";
+import { HttpError, HttpListener, sendJson } from "./http-listener";
+import { CronRunner } from "./runner";
+import { CronExecutionResult, CronJob, MetricsServerOptions } from "./types";
+
+/**
+ * The part of CronRunner the metrics server observes
+ */
+export type MetricsRunner = Pick<CronRunner, "getJobStates" | "on" | "off">;
+
+/** Duration histogram buckets, in seconds */
+export const DEFAULT_DURATION_BUCKETS = [
+  0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300,
+];
+
+interface Histogram {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Prometheus metrics of a runner, collected from its events
+ */
+export class CronMetrics {
+  private readonly runner: MetricsRunner;
+  private readonly buckets: number[];
+  /** Keyed by path, outcome and status code joined with NUL */
+  private executions: Map<string, number> = new Map();
+  private durations: Map<string, Histogram> = new Map();
+  private lastSuccess: Map<string, Date> = new Map();
+
+  constructor(runner: MetricsRunner, buckets = DEFAULT_DURATION_BUCKETS) {
+    this.runner = runner;
+    this.buckets = [...buckets].sort((a, b) => a - b);
+
+    this.runner.on("job:success", this.onResult);
+    this.runner.on("job:failure", this.onResult);
+    this.runner.on("job:skipped", this.onResult);
+  }
+
+  private onResult = (job: CronJob, result: CronExecutionResult): void => {
+    const key = [job.path, result.outcome, result.statusCode ?? ""].join(
+      "\0",
+    );
+    this.executions.set(key, (this.executions.get(key) ?? 0) + 1);
+
+    if (result.success) {
+      this.lastSuccess.set(job.path, result.timestamp);
+    }
+
+    if (result.duration !== undefined) {
+      let histogram = this.durations.get(job.path);
+      if (!histogram) {
+        histogram = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+        this.durations.set(job.path, histogram);
+      }
+
+      const seconds = result.duration / 1000;
+      this.buckets.forEach((bound, index) => {
+        if (seconds <= bound) {
+          histogram!.buckets[index]++;
+        }
+      });
+      histogram.sum += seconds;
+      histogram.count++;
+    }
+  };
+
+  /**
+   * Stop collecting
+   */
+  public dispose(): void {
+    this.runner.off("job:success", this.onResult);
+    this.runner.off("job:failure", this.onResult);
+    this.runner.off("job:skipped", this.onResult);
+  }
+
+  /**
+   * Metrics in the Prometheus text exposition format
+   */
+  public render(): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string) =>
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+
+    metric(
+      "nextjs_crons_executions_total",
+      "counter",
+      "Cron executions by job path, outcome and status code",
+    );
+    for (const [key, count] of this.executions) {
+      const [path, outcome, statusCode] = key.split("\0");
+      lines.push(
+        `nextjs_crons_executions_total${formatLabels({ path, outcome, status_code: statusCode })} ${count}`,
+      );
+    }
+
+    metric(
+      "nextjs_crons_execution_duration_seconds",
+      "histogram",
+      "Cron execution duration, including retries",
+    );
+    for (const [path, histogram] of this.durations) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `nextjs_crons_execution_duration_seconds_bucket${formatLabels({ path, le: String(bound) })} ${histogram.buckets[index]}`,
+        );
+      });
+      lines.push(
+        `nextjs_crons_execution_duration_seconds_bucket${formatLabels({ path, le: "+Inf" })} ${histogram.count}`,
+        `nextjs_crons_execution_duration_seconds_sum${formatLabels({ path })} ${histogram.sum}`,
+        `nextjs_crons_execution_duration_seconds_count${formatLabels({ path })} ${histogram.count}`,
+      );
+    }
+
+    metric(
+      "nextjs_crons_last_success_timestamp_seconds",
+      "gauge",
+      "Unix time of the last successful execution",
+    );
+    for (const [path, time] of this.lastSuccess) {
+      lines.push(
+        `nextjs_crons_last_success_timestamp_seconds${formatLabels({ path })} ${time.getTime() / 1000}`,
+      );
+    }
+
+    const states = this.runner.getJobStates();
+    metric(
+      "nextjs_crons_scheduled_tasks",
+      "gauge",
+      "Number of scheduled cron jobs",
+    );
+    lines.push(`nextjs_crons_scheduled_tasks ${states.length}`);
+    metric(
+      "nextjs_crons_paused_tasks",
+      "gauge",
+      "Number of scheduled cron jobs that are paused",
+    );
+    lines.push(
+      `nextjs_crons_paused_tasks ${states.filter((job) => job.paused).length}`,
+    );
+
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+/**
+ * HTTP listener exposing `/metrics` for Prometheus and `/healthz` for
+ * container healthchecks
+ */
+export class MetricsServer extends HttpListener {
+  private readonly runner: MetricsRunner;
+  private readonly metrics: CronMetrics;
+
+  /**
+   * Metrics are collected from construction on: create the server before the
+   * runner starts to count catch-up runs
+   */
+  constructor(runner: MetricsRunner, options: MetricsServerOptions) {
+    super("Metrics server", options);
+    this.runner = runner;
+    this.metrics = new CronMetrics(runner, options.buckets);
+  }
+
+  protected async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (req.method !== "GET") {
+      throw new HttpError(405, `Method not allowed: ${req.method}`);
+    }
+
+    if (url.pathname === "/metrics") {
+      res.writeHead(200, {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      });
+      res.end(this.metrics.render());
+      return;
+    }
+
+    if (url.pathname === "/healthz") {
+      // Jobs are only scheduled between start() and stop()
+      const scheduledTasks = this.runner.getJobStates().length;
+      sendJson(res, scheduledTasks > 0 ? 200 : 503, {
+        status: scheduledTasks > 0 ? "ok" : "stopped",
+        scheduledTasks,
+      });
+      return;
+    }
+
+    throw new HttpError(404, `Not found: ${url.pathname}`);
+  }
+}
@@ -0,0 +1,288 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ProjectConfig, ProjectProfile } from "./types";
+
+export const PROJECT_CONFIG_FILE = "nextjs-crons.config.json";
+/** Key of package.json read when there is no project config file */
+export const PACKAGE_JSON_KEY = "nextjs-crons";
+
+const PROFILE_KEYS: Array<keyof ProjectProfile> = [
+  "baseUrl",
+  "cronSecret",
+  "configPath",
+  "verbose",
+  "filter",
+  "timezone",
+  "overlap",
+  "retry",
+  "timeout",
+  "waitForServer",
+  "history",
+  "alerts",
+  "stateFile",
+  "catchUp",
+  "jobs",
+  "localConfigPath",
+  "watchConfig",
+  "captureResponse",
+  "vercelEmulation",
+  "headers",
+];
+
+export interface LoadedProjectConfig {
+  /** File the config was read from, relative to the project directory */
+  file: string;
+  config: ProjectConfig;
+}
+
+type DeepPartial<T> = {
+  [K in keyof T]?: unknown extends T[K]
+    ? T[K]
+    : NonNullable<T[K]> extends unknown[]
+      ? T[K]
+      : NonNullable<T[K]> extends object
+        ? DeepPartial<NonNullable<T[K]>>
+        : T[K];
+};
+
+/**
+ * Options set by one source, such as a profile or the command line. A layer
+ * may set part of a nested option, e.g. only `alerts.failureThreshold`.
+ */
+export interface SettingsLayer {
+  /** Shown next to each setting the layer provides */
+  source: string;
+  options: DeepPartial<ProjectProfile>;
+}
+
+export interface MergedSettings {
+  options: ProjectProfile;
+  /** Source of each effective setting, keyed by dotted option name */
+  sources: Record<string, string>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkProfile(value: unknown, where: string): ProjectProfile {
+  if (!isPlainObject(value)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!PROFILE_KEYS.includes(key as keyof ProjectProfile)) {
+      throw new Error(`Unknown option "${key}" in ${where}`);
+    }
+  }
+
+  return value as ProjectProfile;
+}
+
+/**
+ * Check a parsed config file and return it typed
+ */
+export function parseProjectConfig(
+  value: unknown,
+  file: string,
+): ProjectConfig {
+  if (!isPlainObject(value)) {
+    throw new Error(`${file} must contain an object`);
+  }
+
+  const { profiles, defaultProfile, ...options } = value;
+  checkProfile(options, file);
+
+  if (profiles !== undefined) {
+    if (!isPlainObject(profiles)) {
+      throw new Error(`"profiles" in ${file} must be an object`);
+    }
+    for (const [name, profile] of Object.entries(profiles)) {
+      checkProfile(profile, `profile "${name}" of ${file}`);
+    }
+  }
+
+  if (defaultProfile !== undefined) {
+    if (typeof defaultProfile !== "string") {
+      throw new Error(`"defaultProfile" in ${file} must be a string`);
+    }
+    if (!isPlainObject(profiles) || !(defaultProfile in profiles)) {
+      throw new Error(
+        `Default profile "${defaultProfile}" is not defined in ${file}`,
+      );
+    }
+  }
+
+  return value as ProjectConfig;
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid ${path.basename(file)}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+/**
+ * Find the project config in `dir`: `nextjs-crons.config.json`, or else the
+ * `nextjs-crons` key of package.json. Returns undefined when there is none.
+ */
+export function findProjectConfig(
+  dir: string = process.cwd(),
+): LoadedProjectConfig | undefined {
+  const configFile = path.join(dir, PROJECT_CONFIG_FILE);
+  if (fs.existsSync(configFile)) {
+    return {
+      file: PROJECT_CONFIG_FILE,
+      config: parseProjectConfig(readJson(configFile), PROJECT_CONFIG_FILE),
+    };
+  }
+
+  const packageFile = path.join(dir, "package.json");
+  if (!fs.existsSync(packageFile)) {
+    return undefined;
+  }
+
+  const packageJson = readJson(packageFile);
+  if (
+    !isPlainObject(packageJson) ||
+    packageJson[PACKAGE_JSON_KEY] === undefined
+  ) {
+    return undefined;
+  }
+
+  const file = `package.json "${PACKAGE_JSON_KEY}"`;
+  return {
+    file: "package.json",
+    config: parseProjectConfig(packageJson[PACKAGE_JSON_KEY], file),
+  };
+}
+
+/**
+ * Layers of a project config, lowest precedence first: its top-level
+ * options, then the selected profile (or `defaultProfile`)
+ */
+export function getProfileLayers(
+  loaded: LoadedProjectConfig,
+  profile?: string,
+): { profile?: string; layers: SettingsLayer[] } {
+  const { profiles = {}, defaultProfile, ...options } = loaded.config;
+  const layers: SettingsLayer[] = [{ source: loaded.file, options }];
+  const name = profile ?? defaultProfile;
+
+  if (name === undefined) {
+    return { layers };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(profiles, name)) {
+    const available = Object.keys(profiles);
+    throw new Error(
+      available.length > 0
+        ? `Unknown profile: ${name} (available: ${available.join(", ")})`
+        : `Unknown profile: ${name} (${loaded.file} has no profiles)`,
+    );
+  }
+
+  layers.push({
+    source: `profile "${name}" (${loaded.file})`,
+    options: profiles[name],
+  });
+  return { profile: name, layers };
+}
+
+function hasValue(value: Record<string, unknown>): boolean {
+  return Object.values(value).some((item) =>
+    isPlainObject(item) ? hasValue(item) : item !== undefined,
+  );
+}
+
+function clearSources(sources: Record<string, string>, key: string): void {
+  for (const name of Object.keys(sources)) {
+    if (name === key || name.startsWith(`${key}.`)) {
+      delete sources[name];
+    }
+  }
+}
+
+function mergeInto(
+  target: Record<string, unknown>,
+  value: Record<string, unknown>,
+  source: string,
+  sources: Record<string, string>,
+  prefix: string,
+): void {
+  for (const [key, item] of Object.entries(value)) {
+    // Unset flags leave lower layers alone
+    if (item === undefined) {
+      continue;
+    }
+
+    const name = `${prefix}${key}`;
+    if (isPlainObject(item)) {
+      if (!hasValue(item)) {
+        continue;
+      }
+      if (!isPlainObject(target[key])) {
+        target[key] = {};
+        clearSources(sources, name);
+      }
+      mergeInto(
+        target[key] as Record<string, unknown>,
+        item,
+        source,
+        sources,
+        `${name}.`,
+      );
+    } else {
+      target[key] = item;
+      clearSources(sources, name);
+      sources[name] = source;
+    }
+  }
+}
+
+/**
+ * Merge option layers, lowest precedence first. Nested objects such as
+ * `retry` are merged key by key, and each effective setting remembers the
+ * layer it came from.
+ */
+export function mergeSettings(layers: SettingsLayer[]): MergedSettings {
+  const options: Record<string, unknown> = {};
+  const sources: Record<string, string> = {};
+
+  for (const layer of layers) {
+    mergeInto(
+      options,
+      layer.options as Record<string, unknown>,
+      layer.source,
+      sources,
+      "",
+    );
+  }
+
+  return { options: options as ProjectProfile, sources };
+}
+
+/**
+ * Effective settings keyed like `MergedSettings.sources`, e.g.
+ * `retry.maxAttempts`
+ */
+export function flattenSettings(
+  options: ProjectProfile,
+  prefix = "",
+): Record<string, unknown> {
+  const settings: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(options)) {
+    if (isPlainObject(value)) {
+      Object.assign(settings, flattenSettings(value, `${prefix}${key}.`));
+    } else {
+      settings[`${prefix}${key}`] = value;
+    }
+  }
+
+  return settings;
+}
@@ -1,36 +1,234 @@
+import { EventEmitter } from "events";
 import * as fs from "fs";
 import * as cron from "node-cron";
 import * as path from "path";
+import { WebhookAlerts } from "./alerts";
+import { findMaxDuration } from "./functions";
+import { ExecutionHistory } from "./history";
 import {
+  checkJobSettings,
+  checkJobSettingTypes,
+  getLocalConfigPath,
+  loadLocalConfig,
+} from "./local-config";
+import { ConsoleLogger } from "./logger";
+import { getNextRuns, iterateRuns, parseCronExpression } from "./schedule";
+import { simulate } from "./simulate";
+import { RunnerState } from "./state";
+import { checkVercelCompatibility } from "./validate";
+import { formatLocalTime, isValidTimezone } from "./time";
+import { getVercelCronHeaders } from "./vercel-emulation";
+import {
+  CatchUpOptions,
+  ConfiguredCronJob,
+  CronConfigDiff,
+  CronExecutionAttempt,
   CronExecutionResult,
   CronJob,
+  CronJobSettings,
+  CronJobState,
+  CronJobStats,
+  CronLogger,
+  CronRunnerEvents,
   CronRunnerOptions,
   CronRunnerStats,
+  HistoryQuery,
+  LogLevel,
+  RetryOptions,
+  SimulatedFire,
+  VercelCompatibilityIssue,
   VercelCronConfig,
+  VercelPlan,
+  WaitForServerOptions,
 } from "./types";
 
-export class CronRunner {
-  private options: Required<Omit<CronRunnerOptions, "filter" | "fetch">> &
-    Pick<CronRunnerOptions, "filter" | "fetch">;
+interface ExecutionContext {
+  /** Time the job was due, defaults to now */
+  firedAt?: Date;
+  /** Whether this is a missed fire run after downtime */
+  catchUp?: boolean;
+}
+
+interface LoadedConfig {
+  config: VercelCronConfig;
+  /** Per-job settings of the local overlay */
+  localJobs: Record<string, CronJobSettings>;
+}
+
+interface JobStatsEntry {
+  stats: CronJobStats;
+  /** Recent durations, oldest first */
+  durations: number[];
+}
+
+const DEFAULT_WAIT_FOR_SERVER: Required<WaitForServerOptions> = {
+  timeout: 60000,
+  path: "/",
+  interval: 1000,
+};
+
+/** Missed fires run on start by default */
+const DEFAULT_CATCH_UP_MAX_FIRES = 100;
+
+/** Durations kept per job for min/avg/p95 */
+const MAX_DURATION_SAMPLES = 1000;
+
+interface RequestAttempt {
+  response?: Response;
+  /** Read when the body is captured or logged */
+  responseBody?: string;
+  error?: unknown;
+  timedOut?: boolean;
+  duration: number;
+}
+
+/** Options without a default value */
+type UnsetOption = "filter" | "fetch" | "jobs" | "timeout" | "stateFile";
+
+/** Options resolved into their own fields */
+type DerivedOption =
+  | "retry"
+  | "history"
+  | "catchUp"
+  | "logger"
+  | "alerts"
+  | "waitForServer";
+
+type ResolvedOptions = Required<
+  Omit<CronRunnerOptions, UnsetOption | DerivedOption>
+> &
+  Pick<CronRunnerOptions, UnsetOption>;
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 1,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.2,
+  retryOn: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Set each header of `values` on `headers`, replacing any header with the
+ * same name in another case
+ */
+function setHeaders(
+  headers: Record<string, string>,
+  values: Record<string, string>,
+): void {
+  for (const [name, value] of Object.entries(values)) {
+    for (const key of Object.keys(headers)) {
+      if (key.toLowerCase() === name.toLowerCase()) {
+        delete headers[key];
+      }
+    }
+    headers[name] = value;
+  }
+}
+
+export interface CronRunner {
+  on<E extends keyof CronRunnerEvents>(
+    event: E,
+    listener: CronRunnerEvents[E],
+  ): this;
+  once<E extends keyof CronRunnerEvents>(
+    event: E,
+    listener: CronRunnerEvents[E],
+  ): this;
+  off<E extends keyof CronRunnerEvents>(
+    event: E,
+    listener: CronRunnerEvents[E],
+  ): this;
+  emit<E extends keyof CronRunnerEvents>(
+    event: E,
+    ...args: Parameters<CronRunnerEvents[E]>
+  ): boolean;
+}
+
+export class CronRunner extends EventEmitter {
+  private options: ResolvedOptions;
   private tasks: Map<string, cron.ScheduledTask> = new Map();
-  private stats: CronRunnerStats = {
+  private scheduledJobs: Map<string, CronJob> = new Map();
+  private watchedPaths: string[] = [];
+  private inFlight: Map<string, Promise<CronExecutionResult>> = new Map();
+  private paused: Set<string> = new Set();
+  private stats: Omit<CronRunnerStats, "jobs"> = {
     totalJobs: 0,
     successfulExecutions: 0,
     failedExecutions: 0,
+    skippedExecutions: 0,
+    queuedExecutions: 0,
   };
+  private jobStats: Map<string, JobStatsEntry> = new Map();
   private config?: VercelCronConfig;
+  /** Settings from the local config file, keyed by cron path */
+  private localJobs: Record<string, CronJobSettings> = {};
+  private retry: Required<RetryOptions>;
+  private history: ExecutionHistory;
+  private catchUp: CatchUpOptions;
+  private state?: RunnerState;
+  private logger: CronLogger;
+  private alerts?: WebhookAlerts;
+  private waitForServer?: Required<WaitForServerOptions>;
+  /** Set while the server is unavailable, fires are skipped meanwhile */
+  private serverDown = false;
+  private serverCheckTimer?: NodeJS.Timeout;
 
   constructor(options: CronRunnerOptions) {
+    super();
+
+    const configPath = options.configPath || "./vercel.json";
     this.options = {
       baseUrl: options.baseUrl,
       cronSecret: options.cronSecret || process.env.CRON_SECRET || "",
-      configPath: options.configPath || "./vercel.json",
+      configPath,
+      localConfigPath:
+        options.localConfigPath || getLocalConfigPath(configPath),
       verbose: options.verbose ?? 0,
+      timezone: options.timezone || "UTC",
+      overlap: options.overlap || "allow",
+      jobs: options.jobs,
+      timeout: options.timeout,
+      stateFile: options.stateFile,
+      watchConfig: options.watchConfig ?? true,
+      captureResponse: options.captureResponse ?? false,
+      vercelEmulation: options.vercelEmulation ?? true,
+      headers: options.headers ?? {},
       filter: options.filter,
       fetch: options.fetch,
     };
+    this.retry = {
+      maxAttempts: options.retry?.maxAttempts ?? DEFAULT_RETRY.maxAttempts,
+      baseDelay: options.retry?.baseDelay ?? DEFAULT_RETRY.baseDelay,
+      maxDelay: options.retry?.maxDelay ?? DEFAULT_RETRY.maxDelay,
+      jitter: options.retry?.jitter ?? DEFAULT_RETRY.jitter,
+      retryOn: options.retry?.retryOn ?? DEFAULT_RETRY.retryOn,
+    };
+    this.catchUp = options.catchUp ?? { mode: "none" };
+    this.logger = options.logger ?? new ConsoleLogger(this.options.verbose);
+    if (options.waitForServer) {
+      const wait =
+        options.waitForServer === true ? {} : options.waitForServer;
+      this.waitForServer = {
+        timeout: wait.timeout ?? DEFAULT_WAIT_FOR_SERVER.timeout,
+        path: wait.path ?? DEFAULT_WAIT_FOR_SERVER.path,
+        interval: wait.interval ?? DEFAULT_WAIT_FOR_SERVER.interval,
+      };
+    }
 
     this.validateOptions();
+    this.history = new ExecutionHistory(options.history);
+
+    if (options.alerts) {
+      this.alerts = new WebhookAlerts(
+        options.alerts,
+        this.logger,
+        this.options.fetch,
+      );
+    }
+
+    if (this.options.stateFile) {
+      this.state = new RunnerState(this.options.stateFile);
+    }
   }
 
   private validateOptions(): void {
@@ -43,9 +241,69 @@ export class CronRunner {
     } catch {
       throw new Error("baseUrl must be a valid URL");
     }
+
+    if (!isValidTimezone(this.options.timezone)) {
+      throw new Error(`Invalid timezone: ${this.options.timezone}`);
+    }
+
+    const { overlap } = this.options;
+    if (!["allow", "skip", "queue"].includes(overlap)) {
+      throw new Error(
+        `Invalid overlap policy: ${overlap} (expected allow, skip or queue)`,
+      );
+    }
+
+    for (const [jobPath, settings] of Object.entries(this.options.jobs ?? {})) {
+      checkJobSettingTypes(settings, jobPath);
+    }
+
+    if (
+      Object.values(this.options.headers).some(
+        (value) => typeof value !== "string",
+      )
+    ) {
+      throw new Error("headers must map names to strings");
+    }
+
+    if (!["none", "latest", "all"].includes(this.catchUp.mode)) {
+      throw new Error(
+        `Invalid catchUp mode: ${this.catchUp.mode} (expected none, latest or all)`,
+      );
+    }
+
+    if (this.catchUp.mode !== "none" && !this.options.stateFile) {
+      throw new Error("catchUp requires stateFile");
+    }
+
+    const { maxFires } = this.catchUp;
+    if (
+      maxFires !== undefined &&
+      (!Number.isInteger(maxFires) || maxFires < 1)
+    ) {
+      throw new Error("catchUp.maxFires must be a positive integer");
+    }
+
+    const { maxAttempts } = this.retry;
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new Error("retry.maxAttempts must be a positive integer");
+    }
+
+    if (this.waitForServer) {
+      const { timeout, interval } = this.waitForServer;
+      if (!(timeout > 0) || !(interval > 0)) {
+        throw new Error(
+          "waitForServer.timeout and interval must be positive numbers",
+        );
+      }
+    }
   }
 
-  private loadConfig(): VercelCronConfig {
+  /**
+   * Read the config file and its local overlay, checking each job's merged
+   * settings. Nothing is applied, so a rejected reload leaves the runner as
+   * it was.
+   */
+  private loadConfig(): LoadedConfig {
     const configPath = path.resolve(this.options.configPath);
 
     if (!fs.existsSync(configPath)) {
@@ -60,7 +318,15 @@ export class CronRunner {
         throw new Error('Invalid vercel.json: missing "crons" array');
       }
 
-      return config;
+      const localJobs = loadLocalConfig(
+        path.resolve(this.options.localConfigPath),
+      );
+      // Settings are only checked together once merged, e.g. a local body
+      // for a method set in the options
+      for (const job of config.crons) {
+        checkJobSettings(this.getJobSettings(job, localJobs), job.path);
+      }
+      return { config, localJobs };
     } catch (error) {
       if (error instanceof SyntaxError) {
         throw new Error(`Invalid JSON in ${configPath}: ${error.message}`);
@@ -80,124 +346,735 @@ export class CronRunner {
     return jobs.filter((job) => regex.test(job.path));
   }
 
-  private async executeCron(job: CronJob): Promise<CronExecutionResult> {
+  private getJobSettings(
+    job: CronJob,
+    localJobs = this.localJobs,
+  ): CronJobSettings {
+    return { ...localJobs[job.path], ...this.options.jobs?.[job.path] };
+  }
+
+  private getEnabledJobs(
+    jobs: CronJob[],
+    localJobs = this.localJobs,
+  ): CronJob[] {
+    return jobs.filter(
+      (job) => this.getJobSettings(job, localJobs).enabled !== false,
+    );
+  }
+
+  private applyConfig({ config, localJobs }: LoadedConfig): VercelCronConfig {
+    this.config = config;
+    this.localJobs = localJobs;
+    return config;
+  }
+
+  /**
+   * Run a job through its overlap policy
+   */
+  private runJob(
+    job: CronJob,
+    context: ExecutionContext = {},
+  ): Promise<CronExecutionResult> {
+    const policy = this.getJobSettings(job).overlap ?? this.options.overlap;
+    const previous = this.inFlight.get(job.path);
+
+    if (this.serverDown) {
+      return Promise.resolve(
+        this.skipExecution(job, context, "Server unavailable"),
+      );
+    }
+
+    if (previous && policy === "skip") {
+      return Promise.resolve(this.skipExecution(job, context));
+    }
+
+    let run: Promise<CronExecutionResult>;
+
+    if (previous && policy === "queue") {
+      const queuedAt = Date.now();
+      this.stats.queuedExecutions++;
+      this.log("info", `Queued: ${job.path} (previous run still in progress)`, {
+        path: job.path,
+      });
+
+      run = previous.catch(() => undefined).then(async () => {
+        const queuedFor = Date.now() - queuedAt;
+        const result = await this.executeCron(job, context);
+        return { ...result, queuedFor };
+      });
+    } else {
+      run = this.executeCron(job, context);
+    }
+
+    this.inFlight.set(job.path, run);
+    const settle = () => {
+      if (this.inFlight.get(job.path) === run) {
+        this.inFlight.delete(job.path);
+      }
+    };
+    run.then(settle, settle);
+
+    return run;
+  }
+
+  private getFiredTimes(context: ExecutionContext) {
+    const firedAt = context.firedAt ?? new Date();
+
+    return {
+      timezone: this.options.timezone,
+      utcTime: firedAt.toISOString(),
+      localTime: formatLocalTime(firedAt),
+      catchUp: context.catchUp,
+    };
+  }
+
+  private skipExecution(
+    job: CronJob,
+    context: ExecutionContext,
+    reason = "Previous run still in progress",
+  ): CronExecutionResult {
+    this.stats.skippedExecutions++;
+    this.log("warn", `Skipped: ${job.path} (${reason.toLowerCase()})`, {
+      path: job.path,
+      reason,
+    });
+
+    const result: CronExecutionResult = {
+      path: job.path,
+      schedule: job.schedule,
+      success: false,
+      outcome: "skipped",
+      skipReason: reason,
+      timestamp: new Date(),
+      ...this.getFiredTimes(context),
+      attempts: [],
+    };
+
+    this.history.add(result);
+    this.recordJobStats(result);
+    this.emit("job:skipped", job, result);
+    return result;
+  }
+
+  /**
+   * Time limit for a job's requests in milliseconds, if any
+   */
+  private getTimeout(job: CronJob): number | undefined {
+    const { timeout } = this.getJobSettings(job);
+    if (timeout !== undefined) {
+      return timeout;
+    }
+
+    const maxDuration = findMaxDuration(this.config?.functions, job.path);
+    if (maxDuration !== undefined) {
+      return maxDuration * 1000;
+    }
+
+    return this.options.timeout;
+  }
+
+  private async attemptRequest(
+    job: CronJob,
+    timeout?: number,
+  ): Promise<RequestAttempt> {
     const startTime = Date.now();
-    const url = `${this.options.baseUrl}${job.path}`;
-    const timestamp = new Date();
+    const settings = this.getJobSettings(job);
+    let url = `${this.options.baseUrl}${job.path}`;
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
 
-    this.log(`Executing cron: ${job.path}`);
+    if (settings.query) {
+      const query = new URLSearchParams();
+      for (const [name, value] of Object.entries(settings.query)) {
+        query.append(name, String(value));
+      }
+      url += `${url.includes("?") ? "&" : "?"}${query}`;
+    }
 
     try {
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-      };
+      const emulate = this.options.vercelEmulation;
+      const headers: Record<string, string> = emulate
+        ? getVercelCronHeaders(this.options.baseUrl)
+        : { "Content-Type": "application/json" };
 
       if (this.options.cronSecret) {
         headers["Authorization"] = `Bearer ${this.options.cronSecret}`;
       }
 
+      let body: string | undefined;
+      if (typeof settings.body === "string") {
+        body = settings.body;
+      } else if (settings.body !== undefined) {
+        body = JSON.stringify(settings.body);
+        setHeaders(headers, { "Content-Type": "application/json" });
+      }
+
+      // Runner-wide headers, then the job's, override the defaults
+      setHeaders(headers, this.options.headers);
+      setHeaders(headers, settings.headers ?? {});
+
       const fetchFn = this.options.fetch || fetch;
-      const response = await fetchFn(url, {
-        method: "GET",
+      const request = fetchFn(url, {
+        method: settings.method?.toUpperCase() ?? "GET",
         headers,
+        body,
+        // Vercel does not follow redirects, the 3xx response ends the run
+        redirect: emulate ? "manual" : "follow",
+        signal: controller.signal,
       });
 
-      const duration = Date.now() - startTime;
-      const success = response.ok;
+      const deadline = timeout
+        ? new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+              controller.abort();
+              reject(controller.signal.reason);
+            }, timeout);
+          })
+        : undefined;
+      const beforeDeadline = <T>(promise: Promise<T>): Promise<T> =>
+        deadline ? Promise.race([promise, deadline]) : promise;
 
-      let responseBody: string | undefined;
-      if (this.options.verbose >= 2) {
-        try {
-          const contentType = response.headers.get("content-type") || "";
-          const contentLength = response.headers.get("content-length");
-          const maxBodySize = 1024 * 10;
-
-          if (!contentLength || parseInt(contentLength, 10) <= maxBodySize) {
-            const clonedResponse = response.clone();
-            const text = await clonedResponse.text();
-            if (text.length <= maxBodySize) {
-              responseBody = text;
-            } else {
-              responseBody = `${text.substring(0, maxBodySize)}... [truncated, total length: ${text.length}]`;
-            }
-          } else {
-            responseBody = `[Response body too large: ${contentLength} bytes, max: ${maxBodySize} bytes]`;
-          }
-        } catch (bodyError) {
-          responseBody = `[Unable to read response body: ${bodyError instanceof Error ? bodyError.message : "Unknown error"}]`;
-        }
+      const response = await beforeDeadline(request);
+      // The time limit also covers the body, which may stream for long
+      const responseBody =
+        this.options.captureResponse || this.options.verbose >= 2
+          ? await beforeDeadline(this.readResponseBody(response))
+          : undefined;
+
+      return { response, responseBody, duration: Date.now() - startTime };
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+
+      return {
+        error: timedOut ? new Error(`Timed out after ${timeout}ms`) : error,
+        timedOut,
+        duration: Date.now() - startTime,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private isRetryable(attempt: RequestAttempt): boolean {
+    if (attempt.timedOut) {
+      return false;
+    }
+
+    if (!attempt.response) {
+      return true;
+    }
+
+    return (
+      !attempt.response.ok &&
+      this.retry.retryOn.includes(attempt.response.status)
+    );
+  }
+
+  private getRetryDelay(attempt: number): number {
+    const { baseDelay, maxDelay, jitter } = this.retry;
+    const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+    const spread = delay * jitter * (Math.random() * 2 - 1);
+
+    return Math.round(Math.min(maxDelay, Math.max(0, delay + spread)));
+  }
+
+  private async executeCron(
+    job: CronJob,
+    context: ExecutionContext = {},
+  ): Promise<CronExecutionResult> {
+    const startTime = Date.now();
+    const timestamp = new Date();
+    const firedTimes = this.getFiredTimes(context);
+
+    this.log(
+      "info",
+      `${context.catchUp ? "Catching up" : "Executing"} cron: ${job.path} (UTC ${firedTimes.utcTime}, local ${firedTimes.localTime})`,
+      { path: job.path, ...firedTimes },
+    );
+    this.emit("job:start", job);
+
+    const timeout = this.getTimeout(job);
+    const attempts: CronExecutionAttempt[] = [];
+    let last: RequestAttempt;
+
+    for (let attempt = 1; ; attempt++) {
+      last = await this.attemptRequest(job, timeout);
+      const record: CronExecutionAttempt = {
+        attempt,
+        statusCode: last.response?.status,
+        error: last.response ? undefined : this.getErrorMessage(last.error),
+        timedOut: last.timedOut || undefined,
+        duration: last.duration,
+      };
+      attempts.push(record);
+
+      if (attempt >= this.retry.maxAttempts || !this.isRetryable(last)) {
+        break;
       }
 
+      const delay = this.getRetryDelay(attempt);
+      this.emit("job:retry", job, record, delay);
+      const reason = last.response
+        ? `status ${last.response.status}`
+        : this.getErrorMessage(last.error);
+      this.log(
+        "info",
+        `↻ Retrying: ${job.path} (${reason}) in ${delay}ms - attempt ${attempt + 1}/${this.retry.maxAttempts}`,
+        {
+          path: job.path,
+          statusCode: record.statusCode,
+          error: record.error,
+          delay,
+          attempt: attempt + 1,
+          maxAttempts: this.retry.maxAttempts,
+        },
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    const response = last.response;
+    const attemptsNote =
+      attempts.length > 1 ? `, ${attempts.length} attempts` : "";
+    const fields = { path: job.path, attempts: attempts.length };
+
+    if (response) {
+      const duration = Date.now() - startTime;
+      const redirected =
+        this.options.vercelEmulation &&
+        response.status >= 300 &&
+        response.status < 400;
+      const success = response.ok || redirected;
+
+      const responseBody = last.responseBody;
+
       if (success) {
         this.stats.successfulExecutions++;
-        this.log(`✓ Success: ${job.path} (${response.status}) - ${duration}ms`);
+        this.log(
+          "info",
+          `✓ Success: ${job.path} (${response.status}) - ${duration}ms${attemptsNote}`,
+          { ...fields, statusCode: response.status, duration },
+        );
         if (this.options.verbose >= 2 && responseBody) {
-          this.log(`  Response body: ${responseBody}`, false);
+          this.log("debug", `  Response body: ${responseBody}`, {
+            ...fields,
+            responseBody,
+          });
         }
       } else {
         this.stats.failedExecutions++;
         this.log(
-          `✗ Failed: ${job.path} (${response.status}) - ${duration}ms`,
-          true,
+          "error",
+          `✗ Failed: ${job.path} (${response.status}) - ${duration}ms${attemptsNote}`,
+          { ...fields, statusCode: response.status, duration },
         );
         if (this.options.verbose >= 2 && responseBody) {
-          this.log(`  Response body: ${responseBody}`, true);
+          this.log("debug", `  Response body: ${responseBody}`, {
+            ...fields,
+            responseBody,
+          });
         }
       }
 
       this.stats.lastExecution = timestamp;
 
-      return {
+      return this.finishExecution(job, {
         path: job.path,
         schedule: job.schedule,
         success,
+        outcome: success ? "success" : "failure",
         statusCode: response.status,
         timestamp,
         duration,
-      };
-    } catch (error) {
+        ...firedTimes,
+        timeout,
+        responseBody: this.options.captureResponse ? responseBody : undefined,
+        attempts,
+      });
+    } else {
+      const error = last.error;
       const duration = Date.now() - startTime;
       this.stats.failedExecutions++;
 
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      this.log(`✗ Error: ${job.path} - ${errorMessage}`, true);
+      const errorMessage = this.getErrorMessage(error);
+      this.log(
+        "error",
+        `${last.timedOut ? "⏱ Timeout" : "✗ Error"}: ${job.path} - ${errorMessage}${attemptsNote}`,
+        {
+          ...fields,
+          error: errorMessage,
+          timedOut: last.timedOut || undefined,
+          duration,
+        },
+      );
 
       if (this.options.verbose >= 2) {
         const errorDetails =
           error instanceof Error
             ? `  Error name: ${error.name}\n  Error message: ${error.message}\n  Error stack: ${error.stack || "N/A"}`
             : `  Error: ${String(error)}`;
-        this.log(errorDetails, true);
+        this.log("debug", errorDetails, { ...fields, error });
       }
 
-      return {
+      if (!last.timedOut) {
+        this.markServerDown();
+      }
+
+      return this.finishExecution(job, {
         path: job.path,
         schedule: job.schedule,
         success: false,
+        outcome: last.timedOut ? "timeout" : "error",
         error: errorMessage,
         timestamp,
         duration,
+        ...firedTimes,
+        timeout,
+        attempts,
+      });
+    }
+  }
+
+  private async readResponseBody(response: Response): Promise<string> {
+    const maxBodySize = 1024 * 10;
+
+    try {
+      const contentLength = response.headers.get("content-length");
+
+      if (contentLength && parseInt(contentLength, 10) > maxBodySize) {
+        return `[Response body too large: ${contentLength} bytes, max: ${maxBodySize} bytes]`;
+      }
+
+      const text = await response.clone().text();
+      if (text.length <= maxBodySize) {
+        return text;
+      }
+
+      return `${text.substring(0, maxBodySize)}... [truncated, total length: ${text.length}]`;
+    } catch (bodyError) {
+      return `[Unable to read response body: ${bodyError instanceof Error ? bodyError.message : "Unknown error"}]`;
+    }
+  }
+
+  private finishExecution(
+    job: CronJob,
+    result: CronExecutionResult,
+  ): CronExecutionResult {
+    this.history.add(result);
+    this.recordJobStats(result);
+    this.alerts?.record(
+      result,
+      this.jobStats.get(result.path)!.stats.consecutiveFailures,
+    );
+    this.emit(result.success ? "job:success" : "job:failure", job, result);
+    return result;
+  }
+
+  private recordJobStats(result: CronExecutionResult): void {
+    let entry = this.jobStats.get(result.path);
+    if (!entry) {
+      entry = {
+        stats: {
+          successfulExecutions: 0,
+          failedExecutions: 0,
+          skippedExecutions: 0,
+          consecutiveFailures: 0,
+        },
+        durations: [],
       };
+      this.jobStats.set(result.path, entry);
+    }
+
+    const { stats } = entry;
+    if (result.outcome === "skipped") {
+      stats.skippedExecutions++;
+      return;
+    }
+
+    stats.lastStatusCode = result.statusCode;
+    if (result.success) {
+      stats.successfulExecutions++;
+      stats.consecutiveFailures = 0;
+      stats.lastSuccess = result.timestamp;
+    } else {
+      stats.failedExecutions++;
+      stats.consecutiveFailures++;
+      stats.lastFailure = result.timestamp;
+      stats.lastError = result.error ?? `Status ${result.statusCode}`;
     }
+
+    if (result.duration !== undefined) {
+      entry.durations.push(result.duration);
+      if (entry.durations.length > MAX_DURATION_SAMPLES) {
+        entry.durations.shift();
+      }
+    }
+  }
+
+  private getJobStats({ stats, durations }: JobStatsEntry): CronJobStats {
+    if (durations.length === 0) {
+      return { ...stats };
+    }
+
+    const sorted = [...durations].sort((a, b) => a - b);
+    const total = sorted.reduce((sum, duration) => sum + duration, 0);
+
+    return {
+      ...stats,
+      minDuration: sorted[0],
+      avgDuration: Math.round(total / sorted.length),
+      // Nearest-rank percentile
+      p95Duration: sorted[Math.ceil(sorted.length * 0.95) - 1],
+    };
+  }
+
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : "Unknown error";
   }
 
+  /**
+   * node-cron must accept the schedule to fire it, and the stricter parser
+   * behind next runs and catch-up must too
+   */
   private validateCronSchedule(schedule: string): boolean {
-    return cron.validate(schedule);
+    if (!cron.validate(schedule)) {
+      return false;
+    }
+
+    try {
+      parseCronExpression(schedule);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private log(
+    level: LogLevel,
+    message: string,
+    fields: Record<string, unknown> = {},
+  ): void {
+    this.logger[level](fields, message);
+  }
+
+  private assertValidSchedules(jobs: CronJob[]): void {
+    for (const job of jobs) {
+      if (!this.validateCronSchedule(job.schedule)) {
+        throw new Error(
+          `Invalid cron schedule for ${job.path}: ${job.schedule}`,
+        );
+      }
+    }
   }
 
-  private log(message: string, isError = false): void {
-    if (this.options.verbose === 0 && !isError) {
+  private scheduleJob(job: CronJob): void {
+    const task = cron.schedule(
+      job.schedule,
+      async () => {
+        // node-cron's own fire time is the timezone's wall-clock time parsed
+        // as machine-local time, so it is off unless both match
+        const firedAt = new Date();
+        firedAt.setMilliseconds(0);
+        this.state?.setLastFire(job.path, firedAt);
+        await this.runJob(job, { firedAt });
+      },
+      { timezone: this.options.timezone },
+    );
+
+    if (this.paused.has(job.path)) {
+      task.stop();
+    }
+
+    this.tasks.set(job.path, task);
+    this.scheduledJobs.set(job.path, job);
+    this.log(
+      "info",
+      `Scheduled: ${job.path} (${job.schedule}, ${this.options.timezone})`,
+      { ...job, timezone: this.options.timezone },
+    );
+    this.emit("job:scheduled", job);
+  }
+
+  private unscheduleJob(path: string): void {
+    const task = this.tasks.get(path);
+    const job = this.scheduledJobs.get(path);
+    if (task) {
+      task.stop();
+    }
+
+    this.tasks.delete(path);
+    this.scheduledJobs.delete(path);
+
+    if (job) {
+      this.emit("job:unscheduled", job);
+    }
+  }
+
+  private watchConfigFile(): void {
+    const configPath = path.resolve(this.options.configPath);
+
+    const localConfigPath = path.resolve(this.options.localConfigPath);
+    const onChange = (curr: fs.Stats, prev: fs.Stats) => {
+      if (curr.mtimeMs === prev.mtimeMs) {
+        return;
+      }
+
+      try {
+        this.reloadConfig();
+      } catch (error) {
+        const errorMessage = this.getErrorMessage(error);
+        this.log(
+          "error",
+          `Failed to reload ${configPath}, keeping previous schedule: ${errorMessage}`,
+          { configPath, error: errorMessage },
+        );
+        this.emit(
+          "config:error",
+          error instanceof Error ? error : new Error(errorMessage),
+        );
+      }
+    };
+
+    // The local config is polled too, so it can be created while running
+    for (const file of [configPath, localConfigPath]) {
+      fs.watchFile(file, { interval: 1000 }, onChange);
+      this.watchedPaths.push(file);
+    }
+    this.log("info", `Watching ${configPath} for changes`, { configPath });
+  }
+
+  private logConfigDiff(diff: CronConfigDiff): void {
+    const changes =
+      diff.added.length + diff.removed.length + diff.rescheduled.length;
+
+    if (changes === 0) {
+      this.log("info", "Config reloaded: no cron changes");
       return;
     }
 
-    const timestamp = new Date().toISOString();
-    const prefix = `[${timestamp}]`;
+    this.log(
+      "info",
+      `Config reloaded: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.rescheduled.length} rescheduled`,
+      {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        rescheduled: diff.rescheduled.length,
+      },
+    );
 
-    if (isError) {
-      console.error(`${prefix} ${message}`);
-    } else {
-      console.log(`${prefix} ${message}`);
+    for (const job of diff.added) {
+      this.log("info", `  + ${job.path} (${job.schedule})`, { ...job });
+    }
+    for (const job of diff.removed) {
+      this.log("info", `  - ${job.path} (${job.schedule})`, { ...job });
+    }
+    for (const { job, previousSchedule } of diff.rescheduled) {
+      this.log(
+        "info",
+        `  ~ ${job.path} (${previousSchedule} -> ${job.schedule})`,
+        { ...job, previousSchedule },
+      );
+    }
+  }
+
+  private getServerCheckUrl(): string {
+    return `${this.options.baseUrl}${this.waitForServer!.path}`;
+  }
+
+  /**
+   * Whether the server answers at all, whatever the status code
+   */
+  private async isServerUp(timeout: number): Promise<boolean> {
+    const fetchFn = this.options.fetch || fetch;
+
+    try {
+      await fetchFn(this.getServerCheckUrl(), {
+        method: "GET",
+        signal: AbortSignal.timeout(Math.max(timeout, 1)),
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Poll the server until it answers, with `waitForServer`
+   */
+  private async waitUntilServerReady(): Promise<void> {
+    if (!this.waitForServer) {
+      return;
+    }
+
+    const { timeout, interval } = this.waitForServer;
+    const url = this.getServerCheckUrl();
+    const deadline = Date.now() + timeout;
+    this.log("info", `Waiting for ${url} to answer...`, { url, timeout });
+
+    while (!(await this.isServerUp(deadline - Date.now()))) {
+      if (Date.now() + interval > deadline) {
+        throw new Error(`Server did not answer at ${url} within ${timeout}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+
+    this.setServerReady(url);
+  }
+
+  private setServerReady(url: string): void {
+    this.serverDown = false;
+    this.log("info", `Server ready: ${url}`, { url });
+    this.emit("server:ready", url);
+  }
+
+  /**
+   * Skip fires until the server answers again, after a request could not
+   * reach it
+   */
+  private markServerDown(): void {
+    if (!this.waitForServer || this.serverDown) {
+      return;
+    }
+
+    const { interval } = this.waitForServer;
+    const url = this.getServerCheckUrl();
+    this.serverDown = true;
+    this.log(
+      "warn",
+      `Server unavailable, skipping fires until ${url} answers`,
+      { url },
+    );
+    this.emit("server:down", url);
+
+    const check = async () => {
+      const up = await this.isServerUp(interval);
+      // stop() clears serverDown while a check may be in flight
+      if (!this.serverDown) {
+        return;
+      }
+
+      if (up) {
+        this.serverCheckTimer = undefined;
+        this.setServerReady(url);
+      } else {
+        this.serverCheckTimer = setTimeout(check, interval);
+      }
+    };
+    this.serverCheckTimer = setTimeout(check, interval);
+  }
+
+  private stopServerCheck(): void {
+    clearTimeout(this.serverCheckTimer);
+    this.serverCheckTimer = undefined;
+    this.serverDown = false;
+  }
+
+  /**
+   * After a one-off run, stop polling a server that went down unless jobs
+   * are scheduled, so that nothing keeps the caller's process alive
+   */
+  private finishOneOffRun(): void {
+    if (this.tasks.size === 0) {
+      this.stopServerCheck();
     }
   }
 
@@ -205,102 +1082,459 @@ export class CronRunner {
    * Start the cron runner
    */
   public async start(): Promise<void> {
-    this.config = this.loadConfig();
-    const jobs = this.filterJobs(this.config.crons);
+    const config = this.applyConfig(this.loadConfig());
+    const jobs = this.getEnabledJobs(this.filterJobs(config.crons));
 
     if (jobs.length === 0) {
       throw new Error("No cron jobs found matching the filter");
     }
 
+    this.assertValidSchedules(jobs);
+    await this.waitUntilServerReady();
+
     this.stats.totalJobs = jobs.length;
 
-    this.log(`Starting ${jobs.length} cron job(s)...`);
+    this.log("info", `Starting ${jobs.length} cron job(s)...`, {
+      jobs: jobs.length,
+    });
+
+    const startedAt = new Date();
+    const missed = this.getMissedRuns(jobs, startedAt);
 
     for (const job of jobs) {
-      if (!this.validateCronSchedule(job.schedule)) {
-        throw new Error(
-          `Invalid cron schedule for ${job.path}: ${job.schedule}`,
-        );
+      this.scheduleJob(job);
+      if (this.state && !this.state.getLastFire(job.path)) {
+        this.state.setLastFire(job.path, startedAt);
+      }
+    }
+
+    if (this.options.watchConfig) {
+      this.watchConfigFile();
+    }
+
+    this.log("info", "All cron jobs started successfully");
+    this.emit("started", jobs);
+
+    // Missed fires run in the background, alongside the scheduled ones
+    if (this.catchUp.mode !== "none") {
+      this.runMissedFires(missed).catch((error) => {
+        const message = this.getErrorMessage(error);
+        this.log("error", `Catch-up failed: ${message}`, { error: message });
+      });
+    }
+  }
+
+  /**
+   * Fires of the given jobs that were due between their last recorded fire
+   * and `now`, filtered by the catch-up mode, maximum age and maximum count
+   */
+  private getMissedRuns(jobs: CronJob[], now: Date): SimulatedFire[] {
+    if (!this.state || this.catchUp.mode === "none") {
+      return [];
+    }
+
+    const oldest =
+      this.catchUp.maxAge !== undefined
+        ? now.getTime() - this.catchUp.maxAge
+        : -Infinity;
+    const maxFires = this.catchUp.maxFires ?? DEFAULT_CATCH_UP_MAX_FIRES;
+    // Only the most recent fires of each job are kept while iterating
+    const keptPerJob = this.catchUp.mode === "latest" ? 1 : maxFires;
+    const missed: SimulatedFire[] = [];
+    let dropped = 0;
+
+    for (const job of jobs) {
+      const lastFire = this.state.getLastFire(job.path);
+      if (!lastFire) {
+        continue;
+      }
+
+      const from = new Date(Math.max(lastFire.getTime(), oldest - 1));
+      const runs = iterateRuns(job.schedule, from, this.options.timezone);
+      const fires: SimulatedFire[] = [];
+
+      for (const time of runs) {
+        if (time >= now) {
+          break;
+        }
+        fires.push({ time, path: job.path, schedule: job.schedule });
+        if (fires.length > keptPerJob) {
+          fires.shift();
+          if (this.catchUp.mode === "all") {
+            dropped++;
+          }
+        }
       }
 
-      const task = cron.schedule(job.schedule, async () => {
-        await this.executeCron(job);
+      missed.push(...fires);
+    }
+
+    missed.sort((a, b) => a.time.getTime() - b.time.getTime());
+    dropped += Math.max(0, missed.length - maxFires);
+    if (dropped > 0) {
+      this.log(
+        "warn",
+        `Dropping ${dropped} older missed fire(s), over catchUp.maxFires (${maxFires})`,
+        { dropped, maxFires },
+      );
+    }
+
+    return missed.slice(-maxFires);
+  }
+
+  private async runMissedFires(
+    missed: SimulatedFire[],
+  ): Promise<CronExecutionResult[]> {
+    if (missed.length > 0) {
+      this.log("info", `Catching up on ${missed.length} missed fire(s)...`, {
+        missed: missed.length,
       });
+    }
+
+    const results: CronExecutionResult[] = [];
 
-      this.tasks.set(job.path, task);
-      this.log(`Scheduled: ${job.path} (${job.schedule})`);
+    for (const fire of missed) {
+      const job = this.scheduledJobs.get(fire.path);
+      if (!job) {
+        continue;
+      }
+
+      this.state?.setLastFire(job.path, fire.time);
+      results.push(
+        await this.runJob(job, { firedAt: fire.time, catchUp: true }),
+      );
+    }
+
+    this.emit("catchup:finished", results);
+    return results;
+  }
+
+  /**
+   * Re-read the config file and apply the differences to the running tasks.
+   * Only added, removed or rescheduled jobs are touched. If the new config is
+   * invalid, an error is thrown and the current schedule is left untouched.
+   */
+  public reloadConfig(): CronConfigDiff {
+    const loaded = this.loadConfig();
+    const jobs = this.getEnabledJobs(
+      this.filterJobs(loaded.config.crons),
+      loaded.localJobs,
+    );
+
+    this.assertValidSchedules(jobs);
+    this.applyConfig(loaded);
+
+    const diff: CronConfigDiff = { added: [], removed: [], rescheduled: [] };
+    const nextPaths = new Set(jobs.map((job) => job.path));
+
+    for (const job of this.scheduledJobs.values()) {
+      if (!nextPaths.has(job.path)) {
+        diff.removed.push(job);
+      }
     }
 
-    this.log("All cron jobs started successfully");
+    for (const job of jobs) {
+      const current = this.scheduledJobs.get(job.path);
+
+      if (!current) {
+        diff.added.push(job);
+      } else if (current.schedule !== job.schedule) {
+        diff.rescheduled.push({ job, previousSchedule: current.schedule });
+      }
+    }
+
+    for (const job of diff.removed) {
+      this.unscheduleJob(job.path);
+      this.paused.delete(job.path);
+    }
+    // Paused jobs stay paused when their schedule changes
+    for (const { job } of diff.rescheduled) {
+      this.unscheduleJob(job.path);
+      this.scheduleJob(job);
+    }
+    for (const job of diff.added) {
+      this.scheduleJob(job);
+      if (this.state && !this.state.getLastFire(job.path)) {
+        this.state.setLastFire(job.path, new Date());
+      }
+    }
+
+    this.stats.totalJobs = this.scheduledJobs.size;
+    this.logConfigDiff(diff);
+    this.emit("config:reloaded", diff);
+
+    return diff;
   }
 
   /**
    * Stop the cron runner
    */
   public stop(): void {
-    this.log("Stopping all cron jobs...");
+    this.log("info", "Stopping all cron jobs...");
+
+    for (const file of this.watchedPaths) {
+      fs.unwatchFile(file);
+    }
+    this.watchedPaths = [];
 
     for (const [path, task] of this.tasks.entries()) {
       task.stop();
-      this.log(`Stopped: ${path}`);
+      this.log("info", `Stopped: ${path}`, { path });
     }
 
     this.tasks.clear();
-    this.log("All cron jobs stopped");
+    this.scheduledJobs.clear();
+    this.paused.clear();
+    this.stopServerCheck();
+    this.log("info", "All cron jobs stopped");
+    this.emit("stopped");
+  }
+
+  /**
+   * Wait for alerts still being sent, at most `timeout` milliseconds when
+   * given. Call it after `stop()` before exiting the process.
+   */
+  public async flushAlerts(timeout?: number): Promise<void> {
+    const flushed = this.alerts?.flush();
+    if (!flushed || timeout === undefined) {
+      return flushed;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        flushed,
+        new Promise((resolve) => {
+          timer = setTimeout(resolve, timeout);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getTask(path: string): cron.ScheduledTask {
+    const task = this.tasks.get(path);
+
+    if (!task) {
+      throw new Error(`Cron job not scheduled: ${path}`);
+    }
+
+    return task;
+  }
+
+  /**
+   * Stop scheduling a running job until it is resumed
+   */
+  public pauseJob(path: string): void {
+    const task = this.getTask(path);
+
+    if (this.paused.has(path)) {
+      return;
+    }
+
+    task.stop();
+    this.paused.add(path);
+    this.log("info", `Paused: ${path}`, { path });
+    this.emit("job:paused", this.scheduledJobs.get(path)!);
+  }
+
+  /**
+   * Resume scheduling a paused job
+   */
+  public resumeJob(path: string): void {
+    const task = this.getTask(path);
+
+    if (!this.paused.has(path)) {
+      return;
+    }
+
+    task.start();
+    this.paused.delete(path);
+    this.log("info", `Resumed: ${path}`, { path });
+    this.emit("job:resumed", this.scheduledJobs.get(path)!);
+  }
+
+  /**
+   * Whether a scheduled job is paused
+   */
+  public isPaused(path: string): boolean {
+    return this.paused.has(path);
+  }
+
+  /**
+   * Run a scheduled job now, outside its schedule. Unlike `executeOne()` the
+   * scheduled job is used as is, and its overlap policy applies
+   */
+  public async triggerJob(path: string): Promise<CronExecutionResult> {
+    this.getTask(path);
+    const job = this.scheduledJobs.get(path)!;
+
+    this.log("info", `Triggered: ${path}`, { path });
+    return this.runJob(job);
+  }
+
+  /**
+   * Runtime state of a scheduled job
+   */
+  public getJobState(path: string): CronJobState {
+    this.getTask(path);
+    const job = this.scheduledJobs.get(path)!;
+    const paused = this.paused.has(path);
+    const nextRun = paused ? undefined : this.getNextRun(job);
+    const [lastResult] = this.history.query({ path, limit: 1 });
+
+    return {
+      ...job,
+      paused,
+      running: this.inFlight.has(path),
+      nextRun,
+      lastResult,
+    };
+  }
+
+  /**
+   * Next fire of a scheduled job, unset rather than an error when its
+   * schedule cannot be parsed, so that state queries never fail
+   */
+  private getNextRun(job: CronJob): Date | undefined {
+    try {
+      const [nextRun] = getNextRuns(
+        job.schedule,
+        1,
+        new Date(),
+        this.options.timezone,
+      );
+      return nextRun;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Runtime state of every scheduled job
+   */
+  public getJobStates(): CronJobState[] {
+    return Array.from(this.scheduledJobs.keys(), (path) =>
+      this.getJobState(path),
+    );
   }
 
   /**
    * Execute all crons once immediately
    */
   public async executeAll(): Promise<CronExecutionResult[]> {
-    this.config = this.loadConfig();
-    const jobs = this.filterJobs(this.config.crons);
+    const config = this.applyConfig(this.loadConfig());
+    const jobs = this.getEnabledJobs(this.filterJobs(config.crons));
 
     if (jobs.length === 0) {
       throw new Error("No cron jobs found matching the filter");
     }
 
-    this.log(`Executing ${jobs.length} cron job(s) once...`);
+    await this.waitUntilServerReady();
+    this.log("info", `Executing ${jobs.length} cron job(s) once...`, {
+      jobs: jobs.length,
+    });
 
     const results: CronExecutionResult[] = [];
 
     for (const job of jobs) {
-      const result = await this.executeCron(job);
+      const result = await this.runJob(job);
       results.push(result);
     }
 
+    // Alerts are sent in the background, let them finish before the caller
+    // exits
+    await this.flushAlerts();
+    this.finishOneOffRun();
+
     return results;
   }
 
   /**
-   * Execute a specific cron job once
+   * Execute a specific cron job once, even if it is disabled
    */
   public async executeOne(path: string): Promise<CronExecutionResult> {
-    this.config = this.loadConfig();
-    const job = this.config.crons.find((j) => j.path === path);
+    const config = this.applyConfig(this.loadConfig());
+    const job = config.crons.find((j) => j.path === path);
 
     if (!job) {
       throw new Error(`Cron job not found: ${path}`);
     }
 
-    return this.executeCron(job);
+    await this.waitUntilServerReady();
+    const result = await this.runJob(job);
+    await this.flushAlerts();
+    this.finishOneOffRun();
+    return result;
   }
 
   /**
-   * Get current statistics
+   * Get current statistics, overall and per job path
    */
   public getStats(): CronRunnerStats {
-    return { ...this.stats };
+    const jobs: Record<string, CronJobStats> = {};
+    for (const [path, entry] of this.jobStats) {
+      jobs[path] = this.getJobStats(entry);
+    }
+
+    return { ...this.stats, jobs };
   }
 
   /**
-   * Get list of configured cron jobs
+   * Get recorded execution results, newest first
    */
-  public listJobs(): CronJob[] {
-    if (!this.config) {
-      this.config = this.loadConfig();
+  public getHistory(query: HistoryQuery = {}): CronExecutionResult[] {
+    return this.history.query(query);
+  }
+
+  /**
+   * Compute the next fire times of a cron job in the configured timezone
+   */
+  public getNextRuns(path: string, count: number, from?: Date): Date[] {
+    const job = this.listJobs().find((j) => j.path === path);
+
+    if (!job) {
+      throw new Error(`Cron job not found: ${path}`);
     }
 
-    return this.filterJobs(this.config.crons);
+    return getNextRuns(job.schedule, count, from, this.options.timezone);
+  }
+
+  /**
+   * List every fire of the configured jobs between two dates, in the
+   * configured timezone, without sending any request
+   */
+  public simulate(from: Date, to: Date, limit?: number): SimulatedFire[] {
+    return simulate(this.getEnabledJobs(this.listJobs()), from, to, {
+      timezone: this.options.timezone,
+      limit,
+    });
+  }
+
+  /**
+   * Check the config file against Vercel's cron rules and plan limits.
+   * Every cron in the file is checked, regardless of `filter`.
+   */
+  public checkVercelCompatibility(
+    plan: VercelPlan = "hobby",
+  ): VercelCompatibilityIssue[] {
+    return checkVercelCompatibility(
+      this.applyConfig(this.loadConfig()),
+      plan,
+    );
+  }
+
+  /**
+   * Get list of configured cron jobs with their settings, including disabled
+   * ones
+   */
+  public listJobs(): ConfiguredCronJob[] {
+    const config = this.config ?? this.applyConfig(this.loadConfig());
+
+    return this.filterJobs(config.crons).map((job) => ({
+      ...job,
+      ...this.getJobSettings(job),
+    }));
   }
 }
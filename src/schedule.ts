@@ -0,0 +1,310 @@
+export interface ParsedCronExpression {
+  /** Whether the expression has a leading seconds field */
+  hasSeconds: boolean;
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0 (Sunday) to 6 (Saturday) */
+  daysOfWeek: number[];
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const FIELDS: FieldSpec[] = [
+  { name: "second", min: 0, max: 59 },
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+/** Give up looking for the next fire after this many days */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const lower = value.toLowerCase();
+
+  if (spec.names) {
+    const index = spec.names.findIndex((name) => lower.startsWith(name));
+    if (index !== -1 && /^[a-z]+$/.test(lower)) {
+      return index + spec.min;
+    }
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${spec.name} value: ${value}`);
+  }
+
+  const number = parseInt(value, 10);
+  if (number < spec.min || number > spec.max) {
+    throw new Error(
+      `Invalid ${spec.name} value: ${value} (expected ${spec.min}-${spec.max})`,
+    );
+  }
+
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepValue] = part.split("/");
+    let step = 1;
+
+    if (stepValue !== undefined) {
+      if (!/^\d+$/.test(stepValue) || parseInt(stepValue, 10) === 0) {
+        throw new Error(`Invalid ${spec.name} step: ${part}`);
+      }
+      step = parseInt(stepValue, 10);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range: ${range}`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      end = stepValue !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a 5-field (or 6-field, with seconds) cron expression.
+ * Accepts `*`, lists, ranges, steps and month or week day names.
+ * @throws {Error} If the expression is invalid
+ */
+export function parseCronExpression(expression: string): ParsedCronExpression {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 or 6 fields, got ${fields.length}`,
+    );
+  }
+
+  const hasSeconds = fields.length === 6;
+  const all = hasSeconds ? fields : ["0", ...fields];
+
+  try {
+    const [seconds, minutes, hours, daysOfMonth, months, daysOfWeek] = all.map(
+      (field, index) => parseField(field, FIELDS[index]),
+    );
+
+    return {
+      hasSeconds,
+      seconds,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek: [...new Set(daysOfWeek.map((day) => day % 7))].sort(
+        (a, b) => a - b,
+      ),
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid cron expression "${expression}": ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Wall-clock time of an instant in a timezone, as a UTC timestamp
+ */
+function getWallClock(instant: number, timezone: string): number {
+  if (timezone === "UTC") {
+    return instant - (instant % 1000);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(instant)) {
+    parts[part.type] = parseInt(part.value, 10);
+  }
+
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+}
+
+/**
+ * UTC offsets (wall-clock minus instant) in effect around a wall-clock time
+ */
+function getOffsetsAround(wallClock: number, timezone: string): number[] {
+  if (timezone === "UTC") {
+    return [0];
+  }
+
+  const offsets = new Set(
+    [wallClock - DAY_MS, wallClock + 2 * DAY_MS].map(
+      (instant) => getWallClock(instant, timezone) - instant,
+    ),
+  );
+
+  return [...offsets];
+}
+
+/**
+ * Instant at which a wall-clock time occurs in a timezone. Empty when the
+ * time is skipped by a DST change. When it is repeated, only the first
+ * instant is returned, since a cron fires once per wall-clock time.
+ */
+function fromWallClock(
+  wallClock: number,
+  offsets: number[],
+  timezone: string,
+): number[] {
+  if (offsets.length === 1) {
+    return [wallClock - offsets[0]];
+  }
+
+  return offsets
+    .map((offset) => wallClock - offset)
+    .filter((instant) => getWallClock(instant, timezone) === wallClock)
+    .sort((a, b) => a - b)
+    .slice(0, 1);
+}
+
+/**
+ * Iterate over the fire times of a cron expression strictly after `from`,
+ * in ascending order. Days of month and days of week must both match, as in
+ * `node-cron`.
+ */
+export function* iterateRuns(
+  expression: string | ParsedCronExpression,
+  from: Date = new Date(),
+  timezone = "UTC",
+): Generator<Date> {
+  const cron =
+    typeof expression === "string"
+      ? parseCronExpression(expression)
+      : expression;
+  const after = from.getTime();
+  const start = getWallClock(after, timezone);
+  const firstDay = start - (start % DAY_MS) - DAY_MS;
+
+  for (let i = 0; i <= MAX_SEARCH_DAYS; i++) {
+    const day = new Date(firstDay + i * DAY_MS);
+
+    if (
+      !cron.months.includes(day.getUTCMonth() + 1) ||
+      !cron.daysOfMonth.includes(day.getUTCDate()) ||
+      !cron.daysOfWeek.includes(day.getUTCDay())
+    ) {
+      continue;
+    }
+
+    const offsets = getOffsetsAround(day.getTime(), timezone);
+    const fires: number[] = [];
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        for (const second of cron.seconds) {
+          const time = (hour * 3600 + minute * 60 + second) * 1000;
+          fires.push(...fromWallClock(day.getTime() + time, offsets, timezone));
+        }
+      }
+    }
+
+    for (const fire of fires.sort((a, b) => a - b)) {
+      if (fire > after) {
+        yield new Date(fire);
+      }
+    }
+  }
+}
+
+/**
+ * Compute the next `count` fire times of a cron expression after `from`
+ */
+export function getNextRuns(
+  expression: string,
+  count: number,
+  from: Date = new Date(),
+  timezone = "UTC",
+): Date[] {
+  const runs: Date[] = [];
+
+  if (count <= 0) {
+    return runs;
+  }
+
+  for (const run of iterateRuns(expression, from, timezone)) {
+    runs.push(run);
+    if (runs.length >= count) {
+      break;
+    }
+  }
+
+  return runs;
+}
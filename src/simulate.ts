@@ -0,0 +1,49 @@
+import { iterateRuns } from "./schedule";
+import { CronJob, SimulatedFire, SimulationOptions } from "./types";
+
+/**
+ * List every fire of the given jobs between `from` and `to` (inclusive),
+ * ordered by time then path, without executing anything
+ * @throws {Error} If the window contains more than `limit` fires
+ */
+export function simulate(
+  jobs: CronJob[],
+  from: Date,
+  to: Date,
+  options: SimulationOptions = {},
+): SimulatedFire[] {
+  const timezone = options.timezone ?? "UTC";
+  const limit = options.limit ?? 10000;
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new Error("Simulation window must have valid from and to dates");
+  }
+
+  if (from > to) {
+    throw new Error("Simulation window must end after it starts");
+  }
+
+  const fires: SimulatedFire[] = [];
+  const start = new Date(from.getTime() - 1);
+
+  for (const job of jobs) {
+    for (const time of iterateRuns(job.schedule, start, timezone)) {
+      if (time > to) {
+        break;
+      }
+
+      if (fires.length >= limit) {
+        throw new Error(
+          `Simulation exceeds ${limit} fires, use a shorter window or a filter`,
+        );
+      }
+
+      fires.push({ time, path: job.path, schedule: job.schedule });
+    }
+  }
+
+  return fires.sort(
+    (a, b) =>
+      a.time.getTime() - b.time.getTime() || a.path.localeCompare(b.path),
+  );
+}
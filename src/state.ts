@@ -0,0 +1,67 @@
+import * as fs from "fs";
+import * as path from "path";
+
+interface StateFileContent {
+  lastFires: Record<string, string>;
+}
+
+/**
+ * Last fire time of each job, persisted to a small JSON file so missed
+ * fires can be detected after the runner was offline
+ */
+export class RunnerState {
+  private readonly file: string;
+  private lastFires: Map<string, Date> = new Map();
+
+  constructor(file: string) {
+    this.file = path.resolve(file);
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.file)) {
+      return;
+    }
+
+    try {
+      const content = JSON.parse(
+        fs.readFileSync(this.file, "utf-8"),
+      ) as StateFileContent;
+
+      for (const [jobPath, time] of Object.entries(content.lastFires ?? {})) {
+        const date = new Date(time);
+        if (!isNaN(date.getTime())) {
+          this.lastFires.set(jobPath, date);
+        }
+      }
+    } catch (error) {
+      throw new Error(
+        `Invalid state file ${this.file}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  private save(): void {
+    const content: StateFileContent = { lastFires: {} };
+    for (const [jobPath, date] of this.lastFires) {
+      content.lastFires[jobPath] = date.toISOString();
+    }
+
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, `${JSON.stringify(content, null, 2)}\n`);
+  }
+
+  public getLastFire(jobPath: string): Date | undefined {
+    return this.lastFires.get(jobPath);
+  }
+
+  public setLastFire(jobPath: string, time: Date): void {
+    const current = this.lastFires.get(jobPath);
+    if (current && current >= time) {
+      return;
+    }
+
+    this.lastFires.set(jobPath, time);
+    this.save();
+  }
+}
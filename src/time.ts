@@ -0,0 +1,79 @@
+/**
+ * Check whether a timezone name is supported by the runtime's Intl data
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function pad(value: number, length = 2): string {
+  return String(Math.abs(value)).padStart(length, "0");
+}
+
+/**
+ * Format a date as ISO 8601 in the machine's local time, with its UTC offset
+ * @example "2025-01-05T09:00:00.000+01:00"
+ */
+export function formatLocalTime(date: Date): string {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? "+" : "-";
+
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    `.${pad(date.getMilliseconds(), 3)}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  );
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as "500ms", "30s", "5m", "24h" or "7d" into
+ * milliseconds. A bare number is taken as seconds, so that
+ * `--wait-for-server 60` waits a minute rather than 60ms.
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/.exec(value.trim());
+
+  if (!match) {
+    throw new Error(`Invalid duration: ${value} (expected e.g. 30s, 5m, 24h)`);
+  }
+
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS[match[2] || "s"]);
+}
+
+/**
+ * Format a date as wall-clock time in a timezone
+ * @example "Mon 2025-01-06 08:00:00 UTC"
+ */
+export function formatZonedTime(date: Date, timezone: string): string {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return `${parts.weekday} ${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second} ${timezone}`;
+}
@@ -1,5 +1,30 @@
 export interface VercelCronConfig {
   crons: CronJob[];
+  functions?: Record<string, VercelFunctionConfig>;
+}
+
+export interface VercelFunctionConfig {
+  /**
+   * Maximum execution time of the function, in seconds
+   */
+  maxDuration?: number;
+  memory?: number;
+}
+
+export type VercelPlan = "hobby" | "pro" | "enterprise";
+
+export interface VercelPlanLimits {
+  /** Maximum number of cron jobs per project */
+  maxCronJobs: number;
+  /** Whether each cron may run at most once a day */
+  dailyOnly: boolean;
+}
+
+export interface VercelCompatibilityIssue {
+  /** Job the issue applies to, unset for project-wide issues */
+  path?: string;
+  schedule?: string;
+  reason: string;
 }
 
 export interface CronJob {
@@ -7,6 +32,134 @@ export interface CronJob {
   schedule: string;
 }
 
+/**
+ * What to do when a job fires while its previous run is still in flight
+ * - `allow`: start another run alongside the previous one
+ * - `skip`: drop the new fire
+ * - `queue`: run the new fire once the previous run has finished
+ */
+export type OverlapPolicy = "allow" | "skip" | "queue";
+
+/**
+ * Local settings for a single job, keyed by its path
+ */
+export interface CronJobSettings {
+  /**
+   * Overlap policy for this job, overrides the runner's `overlap` option
+   */
+  overlap?: OverlapPolicy;
+
+  /**
+   * Disabled jobs are listed but never scheduled, nor run by `executeAll()`
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * HTTP method of the request
+   * @default "GET"
+   */
+  method?: string;
+
+  /**
+   * Extra request headers, which override the default ones
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Request body, sent as is if it is a string and as JSON otherwise.
+   * Requires a method other than GET or HEAD.
+   */
+  body?: unknown;
+
+  /**
+   * Query parameters added to the job's path
+   */
+  query?: Record<string, string | number | boolean>;
+
+  /**
+   * Request time limit in milliseconds, overrides `maxDuration` and the
+   * runner's `timeout` option
+   */
+  timeout?: number;
+
+  /**
+   * Shown by `listJobs()` and `--list`
+   */
+  description?: string;
+}
+
+/**
+ * A job from the config file with the local settings that apply to it
+ */
+export interface ConfiguredCronJob extends CronJob, CronJobSettings {}
+
+export interface RetryOptions {
+  /**
+   * Total number of attempts, including the first one
+   * @default 1
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled on every retry
+   * @default 1000
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Randomize each delay by up to this fraction of itself (0 to 1)
+   * @default 0.2
+   */
+  jitter?: number;
+
+  /**
+   * Response status codes that are retried. Network errors are always retried.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryOn?: number[];
+}
+
+/**
+ * Which missed fires to run on startup
+ * - `none`: drop them
+ * - `latest`: run only the most recent missed fire of each job
+ * - `all`: run every missed fire, oldest first
+ */
+export type CatchUpMode = "none" | "latest" | "all";
+
+export interface CatchUpOptions {
+  mode: CatchUpMode;
+
+  /**
+   * Ignore missed fires older than this many milliseconds
+   */
+  maxAge?: number;
+
+  /**
+   * Run at most this many missed fires, the most recent ones
+   * @default 100
+   */
+  maxFires?: number;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured logger, called pino-style with the entry's fields first
+ * @example logger.info({ path: "/api/crons/sync", statusCode: 200 }, "Success")
+ */
+export type CronLogger = Record<
+  LogLevel,
+  (fields: Record<string, unknown>, message: string) => void
+>;
+
 export interface CronRunnerOptions {
   /**
    * Base URL of your Next.js application
@@ -29,35 +182,462 @@ export interface CronRunnerOptions {
   /**
    * Enable verbose logging
    * 0 = no verbose, 1 = simple verbose, 2 = extended verbose (includes response body and full error details)
+   * With a custom `logger`, 2 still adds the debug entries with response
+   * bodies and error details
    * @default 0
    */
   verbose?: number;
 
+  /**
+   * Where log entries go, e.g. a pino logger.
+   * Defaults to the console, filtered by `verbose`.
+   */
+  logger?: CronLogger;
+
   /**
    * Filter crons by path pattern
    * @example "/api/crons/notifications/*"
    */
   filter?: string;
 
+  /**
+   * IANA timezone used to evaluate every cron schedule.
+   * Vercel always evaluates schedules in UTC.
+   * @default "UTC"
+   */
+  timezone?: string;
+
+  /**
+   * Default overlap policy for every job
+   * @default "allow"
+   */
+  overlap?: OverlapPolicy;
+
+  /**
+   * Retry failed executions with exponential backoff
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Abort requests that take longer than this many milliseconds.
+   * A `maxDuration` from the `functions` section of vercel.json that matches
+   * the route takes precedence.
+   */
+  timeout?: number;
+
+  /**
+   * Wait for the server to answer before `start()` and `executeAll()` run
+   * anything, and skip fires while it is unavailable later on. Any HTTP
+   * response counts as an answer. `true` uses the defaults.
+   */
+  waitForServer?: WaitForServerOptions | boolean;
+
+  /**
+   * Execution history, kept in memory and optionally persisted to a file
+   */
+  history?: ExecutionHistoryOptions;
+
+  /**
+   * POST webhook alerts when jobs keep failing and when they recover
+   */
+  alerts?: AlertOptions;
+
+  /**
+   * JSON file where the last fire time of each job is kept between runs
+   */
+  stateFile?: string;
+
+  /**
+   * Run fires missed while the runner was offline when it starts.
+   * Requires `stateFile`.
+   * @default { mode: "none" }
+   */
+  catchUp?: CatchUpOptions;
+
+  /**
+   * Per-job settings, keyed by cron path. They override the ones of the
+   * local config file.
+   * @example { "/api/crons/sync": { overlap: "skip", method: "POST" } }
+   */
+  jobs?: Record<string, CronJobSettings>;
+
+  /**
+   * JSON file with per-job settings that Vercel does not read, as
+   * `{ "jobs": { "<path>": { ... } } }`. Ignored if it does not exist.
+   * @default The config file's name with `.local` before the extension,
+   * e.g. "./vercel.local.json"
+   */
+  localConfigPath?: string;
+
+  /**
+   * Watch the config file while running and apply changes without a restart
+   * @default true
+   */
+  watchConfig?: boolean;
+
+  /**
+   * Send requests like Vercel's cron invoker: a `vercel-cron/1.0` user agent
+   * and the `x-vercel-*` and `x-forwarded-*` headers Vercel's proxy adds, no
+   * body or Content-Type, and redirects are not followed (a 3xx response
+   * counts as a success). When false, requests have a JSON Content-Type and
+   * follow redirects.
+   * @default true
+   */
+  vercelEmulation?: boolean;
+
+  /**
+   * Extra headers sent with every request. They override the default and
+   * emulated headers, and are overridden by each job's `headers`.
+   * @example { "X-Source": "local" }
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Keep the response body (up to 10 KB) of each execution in
+   * `CronExecutionResult.responseBody`
+   * @default false
+   */
+  captureResponse?: boolean;
+
   /**
    * Custom fetch implementation (useful for testing)
    */
   fetch?: typeof fetch;
 }
 
+/**
+ * Runner options a project config file can set: all but the ones taking code
+ */
+export type ProjectProfile = Partial<
+  Omit<CronRunnerOptions, "logger" | "fetch">
+>;
+
+/**
+ * `nextjs-crons.config.json`, or the `nextjs-crons` key of package.json.
+ * Top-level options apply to every profile.
+ * @example { "baseUrl": "http://localhost:3000", "profiles": { "docker": { "baseUrl": "http://app:3000" } } }
+ */
+export interface ProjectConfig extends ProjectProfile {
+  /** Profile used when none is selected */
+  defaultProfile?: string;
+  /** Named option sets, selected with `--profile` */
+  profiles?: Record<string, ProjectProfile>;
+}
+
+export interface CronConfigDiff {
+  added: CronJob[];
+  removed: CronJob[];
+  rescheduled: Array<{ job: CronJob; previousSchedule: string }>;
+}
+
+export type CronExecutionOutcome =
+  | "success"
+  | "failure"
+  | "error"
+  | "timeout"
+  | "skipped";
+
+export interface CronExecutionAttempt {
+  attempt: number;
+  statusCode?: number;
+  error?: string;
+  timedOut?: boolean;
+  duration: number;
+}
+
 export interface CronExecutionResult {
   path: string;
   schedule: string;
   success: boolean;
+  /**
+   * `failure` is a non-2xx response, `error` a request that did not complete,
+   * `timeout` a request aborted after its time limit, `skipped` a fire
+   * dropped because the previous run was still in flight or the server was
+   * unavailable
+   */
+  outcome: CronExecutionOutcome;
+  /** Why a `skipped` fire was dropped */
+  skipReason?: string;
   statusCode?: number;
   error?: string;
   timestamp: Date;
   duration?: number;
+  /** Timezone the schedule was evaluated in */
+  timezone: string;
+  /** Time the job fired, as ISO 8601 in UTC */
+  utcTime: string;
+  /** Time the job fired, as ISO 8601 in the machine's local time */
+  localTime: string;
+  /** Whether this was a missed fire run on startup */
+  catchUp?: boolean;
+  /** Milliseconds the fire waited for the previous run (`queue` policy) */
+  queuedFor?: number;
+  /** Time limit applied to each request, in milliseconds */
+  timeout?: number;
+  /** Response body, when `captureResponse` is enabled */
+  responseBody?: string;
+  /** Every request made for this fire, including retries */
+  attempts: CronExecutionAttempt[];
+}
+
+export interface WaitForServerOptions {
+  /**
+   * Give up waiting after this many milliseconds
+   * @default 60000
+   */
+  timeout?: number;
+
+  /**
+   * Path polled until the server answers, relative to `baseUrl`
+   * @default "/"
+   */
+  path?: string;
+
+  /**
+   * Milliseconds between two checks
+   * @default 1000
+   */
+  interval?: number;
+}
+
+export interface ExecutionHistoryOptions {
+  /**
+   * Number of results kept in memory, and in the file once it is trimmed
+   * @default 1000
+   */
+  limit?: number;
+
+  /**
+   * Append every result to this JSON-lines file
+   */
+  file?: string;
+}
+
+export type AlertFormat = "generic" | "slack";
+
+export interface AlertOptions {
+  /**
+   * URL the alerts are POSTed to as JSON
+   */
+  webhookUrl: string;
+
+  /**
+   * `slack` posts an incoming-webhook message, `generic` an `AlertPayload`
+   * @default "generic"
+   */
+  format?: AlertFormat;
+
+  /**
+   * Consecutive failures of a job before it is alerted on
+   * @default 1
+   */
+  failureThreshold?: number;
+
+  /**
+   * Minimum milliseconds between two failure alerts for the same job while
+   * it keeps failing
+   * @default 3600000 (1 hour)
+   */
+  repeatInterval?: number;
+
+  /**
+   * Extra request headers, e.g. for authentication
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Body of `generic` alerts. `recovery` is sent on the first success after a
+ * failure alert.
+ */
+export interface AlertPayload {
+  type: "failure" | "recovery";
+  path: string;
+  schedule: string;
+  consecutiveFailures: number;
+  result: CronExecutionResult;
+}
+
+export interface HistoryQuery {
+  /** Only results for this cron path */
+  path?: string;
+  /** Only results recorded at or after this time */
+  since?: Date;
+  /** Maximum number of results, newest first */
+  limit?: number;
+  /** Only results with this outcome */
+  status?: CronExecutionOutcome;
+}
+
+export interface SimulatedFire {
+  time: Date;
+  path: string;
+  schedule: string;
+}
+
+export interface SimulationOptions {
+  /**
+   * Timezone the schedules are evaluated in
+   * @default "UTC"
+   */
+  timezone?: string;
+
+  /**
+   * Maximum number of fires before the simulation is aborted
+   * @default 10000
+   */
+  limit?: number;
+}
+
+/**
+ * Runtime state of a scheduled job, see `getJobState()`
+ */
+export interface CronJobState extends CronJob {
+  paused: boolean;
+  /** A run of this job is in progress */
+  running: boolean;
+  /** Next fire time, unless the job is paused */
+  nextRun?: Date;
+  lastResult?: CronExecutionResult;
+}
+
+export interface ControlServerOptions {
+  /**
+   * Port to listen on, 0 picks a free one
+   */
+  port: number;
+
+  /**
+   * Interface to bind to
+   * @default "127.0.0.1"
+   */
+  host?: string;
+
+  /**
+   * Other host names the server answers to on any port, e.g. its service
+   * name in docker-compose. `localhost` and IP addresses always work.
+   */
+  allowedHosts?: string[];
+}
+
+export interface MetricsServerOptions
+  extends Omit<ControlServerOptions, "allowedHosts"> {
+  /**
+   * Upper bounds of the duration histogram buckets, in seconds
+   * @default [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300]
+   */
+  buckets?: number[];
+}
+
+export interface CronJobStats {
+  successfulExecutions: number;
+  failedExecutions: number;
+  /** Fires dropped by the `skip` overlap policy */
+  skippedExecutions: number;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  /** Status code of the last execution, unset if it got no response */
+  lastStatusCode?: number;
+  /** Error or status of the last failed execution */
+  lastError?: string;
+  lastSuccess?: Date;
+  lastFailure?: Date;
+  /** Durations in milliseconds, over the last 1000 executions */
+  minDuration?: number;
+  avgDuration?: number;
+  p95Duration?: number;
 }
 
 export interface CronRunnerStats {
   totalJobs: number;
   successfulExecutions: number;
   failedExecutions: number;
+  /** Fires dropped by the `skip` overlap policy */
+  skippedExecutions: number;
+  /** Fires delayed by the `queue` overlap policy */
+  queuedExecutions: number;
   lastExecution?: Date;
+  /** Breakdown by job path, for jobs that have run */
+  jobs: Record<string, CronJobStats>;
+}
+
+/**
+ * Events emitted by `CronRunner`, keyed by name
+ */
+export interface CronRunnerEvents {
+  /** All jobs were scheduled by `start()` */
+  started: (jobs: CronJob[]) => void;
+  /** The missed fires run after `start()` with `catchUp` have finished */
+  "catchup:finished": (results: CronExecutionResult[]) => void;
+  /** All jobs were stopped by `stop()` */
+  stopped: () => void;
+  /** A job's task was created */
+  "job:scheduled": (job: CronJob) => void;
+  /** A job's task was removed after a config reload */
+  "job:unscheduled": (job: CronJob) => void;
+  /** A job was paused with `pauseJob()` */
+  "job:paused": (job: CronJob) => void;
+  /** A job was resumed with `resumeJob()` */
+  "job:resumed": (job: CronJob) => void;
+  /** A job started executing */
+  "job:start": (job: CronJob) => void;
+  /** A failed attempt will be retried after `delay` milliseconds */
+  "job:retry": (
+    job: CronJob,
+    attempt: CronExecutionAttempt,
+    delay: number,
+  ) => void;
+  /** A job finished with a 2xx response */
+  "job:success": (job: CronJob, result: CronExecutionResult) => void;
+  /** A job finished with a failure, error or timeout */
+  "job:failure": (job: CronJob, result: CronExecutionResult) => void;
+  /**
+   * A fire was dropped by the `skip` overlap policy or while the server was
+   * unavailable
+   */
+  "job:skipped": (job: CronJob, result: CronExecutionResult) => void;
+  /** The server answered a readiness check (`waitForServer`) */
+  "server:ready": (url: string) => void;
+  /** A request could not reach the server, fires are skipped until it answers */
+  "server:down": (url: string) => void;
+  /** The config file changed and the schedule was updated */
+  "config:reloaded": (diff: CronConfigDiff) => void;
+  /** The config file changed but could not be applied */
+  "config:error": (error: Error) => void;
+}
+
+/**
+ * A runner event as a JSON-serializable object, one per line in the CLI's
+ * `--output json` and `ndjson` modes. Only the fields of the event are set
+ */
+export interface CronEventRecord {
+  /**
+   * Event name, `stats` for a statistics snapshot or `status` for a snapshot
+   * of every job's state
+   */
+  event: keyof CronRunnerEvents | "stats" | "status";
+  /** When the event was emitted, as ISO 8601 in UTC */
+  time: string;
+  /** `job:*` events */
+  job?: CronJob;
+  /** `started` */
+  jobs?: CronJob[];
+  /** `job:success`, `job:failure` and `job:skipped` */
+  result?: CronExecutionResult;
+  /** `catchup:finished`: the result of each missed fire */
+  results?: CronExecutionResult[];
+  /** `job:retry`: the attempt that failed */
+  attempt?: CronExecutionAttempt;
+  /** `job:retry`: milliseconds until the next attempt */
+  delay?: number;
+  /** `config:reloaded` */
+  diff?: CronConfigDiff;
+  /** `config:error` */
+  error?: string;
+  /** `server:ready` and `server:down`: the readiness check URL */
+  url?: string;
+  /** `stats` */
+  stats?: CronRunnerStats;
+  /** `status` */
+  states?: CronJobState[];
 }
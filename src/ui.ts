@@ -0,0 +1,350 @@
+import * as readline from "readline";
+import { CronRunner } from "./runner";
+import { formatZonedTime } from "./time";
+import { CronExecutionResult, CronJobState } from "./types";
+
+/**
+ * The part of CronRunner the terminal UI drives
+ */
+export type TerminalUIRunner = Pick<
+  CronRunner,
+  | "getJobStates"
+  | "getStats"
+  | "triggerJob"
+  | "pauseJob"
+  | "resumeJob"
+  | "on"
+  | "off"
+>;
+
+export interface TerminalUIOptions {
+  /**
+   * Timezone next run times are shown in
+   * @default "UTC"
+   */
+  timezone?: string;
+
+  /** Called when the user quits with `q` or Ctrl+C */
+  onQuit?: () => void;
+
+  /** @default process.stdin */
+  input?: NodeJS.ReadStream;
+
+  /** @default process.stdout */
+  output?: NodeJS.WriteStream;
+}
+
+const HEADERS = [
+  "PATH",
+  "SCHEDULE",
+  "NEXT RUN",
+  "STATUS",
+  "DURATION",
+  "OK",
+  "FAIL",
+];
+const RENDER_EVENTS = [
+  "job:start",
+  "job:success",
+  "job:failure",
+  "job:skipped",
+] as const;
+const KEYS_HELP =
+  "↑/↓ select  enter run now  p pause/resume  b response body  q quit";
+
+const ANSI = {
+  altScreen: "\x1b[?1049h",
+  mainScreen: "\x1b[?1049l",
+  hideCursor: "\x1b[?25l",
+  showCursor: "\x1b[?25h",
+  home: "\x1b[H",
+  clearLine: "\x1b[K",
+  clearDown: "\x1b[J",
+  inverse: "\x1b[7m",
+  dim: "\x1b[2m",
+  green: "\x1b[32m",
+  red: "\x1b[31m",
+  yellow: "\x1b[33m",
+  reset: "\x1b[0m",
+};
+
+/**
+ * Status cell of a job: its state while paused or running, otherwise the
+ * outcome of its last run
+ */
+function getStatus(job: CronJobState): string {
+  if (job.paused) {
+    return "paused";
+  }
+  if (job.running) {
+    return "running";
+  }
+
+  const last = job.lastResult;
+  if (!last) {
+    return "-";
+  }
+
+  return last.statusCode !== undefined
+    ? String(last.statusCode)
+    : last.outcome;
+}
+
+function colorStatus(job: CronJobState, text: string): string {
+  if (job.paused || job.running) {
+    return `${ANSI.yellow}${text}${ANSI.reset}`;
+  }
+  if (!job.lastResult) {
+    return text;
+  }
+
+  const color = job.lastResult.success ? ANSI.green : ANSI.red;
+  return `${color}${text}${ANSI.reset}`;
+}
+
+function fit(text: string, width: number): string {
+  return text.length > width
+    ? `${text.slice(0, Math.max(0, width - 1))}…`
+    : text.padEnd(width);
+}
+
+/**
+ * Live table of the scheduled jobs for watch mode. Keys trigger, pause and
+ * resume the selected job through the runner, or show its last response body
+ */
+export class TerminalUI {
+  private readonly runner: TerminalUIRunner;
+  private readonly timezone: string;
+  private readonly onQuit?: () => void;
+  private readonly input: NodeJS.ReadStream;
+  private readonly output: NodeJS.WriteStream;
+  private selected = 0;
+  private expanded = false;
+  private message = "";
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(runner: TerminalUIRunner, options: TerminalUIOptions = {}) {
+    this.runner = runner;
+    this.timezone = options.timezone || "UTC";
+    this.onQuit = options.onQuit;
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+  }
+
+  private onChange = (): void => {
+    this.render();
+  };
+
+  private onKeypress = (
+    _: string | undefined,
+    key: readline.Key | undefined,
+  ): void => {
+    if (key) {
+      this.handleKey(key);
+    }
+  };
+
+  /**
+   * Take over the terminal and start rendering
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    readline.emitKeypressEvents(this.input);
+    if (this.input.isTTY) {
+      this.input.setRawMode(true);
+    }
+    this.input.on("keypress", this.onKeypress);
+    this.input.resume();
+    for (const event of RENDER_EVENTS) {
+      this.runner.on(event, this.onChange);
+    }
+
+    this.output.write(ANSI.altScreen + ANSI.hideCursor + ANSI.home);
+    this.render();
+    this.timer = setInterval(() => this.render(), 1000);
+  }
+
+  /**
+   * Give the terminal back
+   */
+  public stop(): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    clearInterval(this.timer);
+    for (const event of RENDER_EVENTS) {
+      this.runner.off(event, this.onChange);
+    }
+    this.input.off("keypress", this.onKeypress);
+    if (this.input.isTTY) {
+      this.input.setRawMode(false);
+    }
+    this.input.pause();
+    this.output.write(ANSI.showCursor + ANSI.mainScreen);
+  }
+
+  private handleKey(key: readline.Key): void {
+    const jobs = this.runner.getJobStates();
+    const job = jobs[this.selected];
+
+    switch (key.name) {
+      case "up":
+      case "k":
+        this.selected = Math.max(0, this.selected - 1);
+        break;
+      case "down":
+      case "j":
+        this.selected = Math.min(jobs.length - 1, this.selected + 1);
+        break;
+      case "return":
+      case "r":
+        if (job) {
+          this.message = `Running ${job.path}…`;
+          this.runner
+            .triggerJob(job.path)
+            .then((result) => this.showResult(result))
+            .catch((error) => this.showError(error));
+        }
+        break;
+      case "p":
+        if (job) {
+          try {
+            if (job.paused) {
+              this.runner.resumeJob(job.path);
+              this.message = `Resumed ${job.path}`;
+            } else {
+              this.runner.pauseJob(job.path);
+              this.message = `Paused ${job.path}`;
+            }
+          } catch (error) {
+            this.showError(error);
+          }
+        }
+        break;
+      case "b":
+      case "space":
+        this.expanded = !this.expanded;
+        break;
+      case "q":
+        this.onQuit?.();
+        return;
+      case "c":
+        if (key.ctrl) {
+          this.onQuit?.();
+          return;
+        }
+        break;
+    }
+
+    this.render();
+  }
+
+  private showResult(result: CronExecutionResult): void {
+    this.message = `${result.path}: ${result.outcome}${
+      result.statusCode !== undefined ? ` (${result.statusCode})` : ""
+    }`;
+    this.render();
+  }
+
+  private showError(error: unknown): void {
+    this.message = `Error: ${error instanceof Error ? error.message : error}`;
+    this.render();
+  }
+
+  /**
+   * Lines of the current frame
+   */
+  public renderFrame(): string[] {
+    const jobs = this.runner.getJobStates();
+    const stats = this.runner.getStats().jobs;
+    this.selected = Math.max(0, Math.min(this.selected, jobs.length - 1));
+
+    const rows = jobs.map((job) => {
+      const duration = job.lastResult?.duration;
+      return [
+        job.path,
+        job.schedule,
+        job.nextRun ? formatZonedTime(job.nextRun, this.timezone) : "-",
+        getStatus(job),
+        duration !== undefined ? `${duration}ms` : "-",
+        String(stats[job.path]?.successfulExecutions ?? 0),
+        String(stats[job.path]?.failedExecutions ?? 0),
+      ];
+    });
+
+    const widths = HEADERS.map((header, column) =>
+      Math.max(header.length, ...rows.map((row) => row[column].length)),
+    );
+    const columns = this.output.columns || 120;
+    const otherWidth = widths.slice(1).reduce((sum, w) => sum + w + 2, 2);
+    widths[0] = Math.max(8, Math.min(widths[0], columns - otherWidth));
+
+    const formatRow = (cells: string[], job?: CronJobState) =>
+      cells
+        .map((cell, column) => {
+          const text = fit(cell, widths[column]);
+          return job && column === 3 ? colorStatus(job, text) : text;
+        })
+        .join("  ");
+
+    const lines = [
+      `nextjs-crons - ${jobs.length} job(s), schedules in ${this.timezone}`,
+      "",
+      `${ANSI.dim}  ${formatRow(HEADERS)}${ANSI.reset}`,
+      ...rows.map((row, index) =>
+        index === this.selected
+          ? `${ANSI.inverse}› ${formatRow(row)}${ANSI.reset}`
+          : `  ${formatRow(row, jobs[index])}`,
+      ),
+      "",
+    ];
+
+    const job = jobs[this.selected];
+    if (this.expanded && job) {
+      lines.push(...this.renderDetails(job), "");
+    }
+
+    lines.push(this.message, `${ANSI.dim}${KEYS_HELP}${ANSI.reset}`);
+    return lines;
+  }
+
+  private renderDetails(job: CronJobState): string[] {
+    const last = job.lastResult;
+    if (!last) {
+      return [`${job.path} has not run yet`];
+    }
+
+    const lines = [
+      `Last run of ${job.path} at ${formatZonedTime(last.timestamp, this.timezone)}: ${last.outcome}`,
+    ];
+    if (last.error) {
+      lines.push(last.error);
+    }
+    if (last.responseBody !== undefined) {
+      lines.push(...last.responseBody.split("\n"));
+    } else if (!last.error) {
+      lines.push("(no response body captured)");
+    }
+
+    return lines;
+  }
+
+  private render(): void {
+    if (!this.running) {
+      return;
+    }
+
+    // Overwrite in place rather than clearing, to avoid flicker
+    const frame = this.renderFrame()
+      .map((line) => `${line}${ANSI.clearLine}`)
+      .join("\n");
+    this.output.write(`${ANSI.home}${frame}${ANSI.clearDown}`);
+  }
+}
@@ -0,0 +1,115 @@
+import { parseCronExpression } from "./schedule";
+import {
+  VercelCompatibilityIssue,
+  VercelCronConfig,
+  VercelPlan,
+  VercelPlanLimits,
+} from "./types";
+
+/**
+ * Cron limits of each Vercel plan
+ */
+export const VERCEL_PLAN_LIMITS: Record<VercelPlan, VercelPlanLimits> = {
+  hobby: { maxCronJobs: 100, dailyOnly: true },
+  pro: { maxCronJobs: 100, dailyOnly: false },
+  enterprise: { maxCronJobs: 100, dailyOnly: false },
+};
+
+export const VERCEL_PLANS = Object.keys(VERCEL_PLAN_LIMITS) as VercelPlan[];
+
+const MAX_PATH_LENGTH = 512;
+const MAX_SCHEDULE_LENGTH = 256;
+
+function checkSchedule(schedule: string, plan: VercelPlan): string[] {
+  const reasons: string[] = [];
+  const fields = schedule.trim().split(/\s+/);
+
+  if (schedule.length > MAX_SCHEDULE_LENGTH) {
+    reasons.push(
+      `Schedule is longer than ${MAX_SCHEDULE_LENGTH} characters`,
+    );
+  }
+
+  if (fields.length === 6) {
+    return [
+      ...reasons,
+      "Vercel does not support a seconds field, use 5 fields: minute hour day-of-month month day-of-week",
+    ];
+  }
+
+  let cron;
+  try {
+    cron = parseCronExpression(schedule);
+  } catch (error) {
+    return [...reasons, error instanceof Error ? error.message : String(error)];
+  }
+
+  if (/[a-z]/i.test(schedule)) {
+    reasons.push(
+      "Vercel does not support names such as MON or JAN, use numbers instead",
+    );
+  }
+
+  if (fields[2] !== "*" && fields[4] !== "*") {
+    reasons.push(
+      "Vercel does not allow both day of month and day of week, set one of them to *",
+    );
+  }
+
+  if (
+    VERCEL_PLAN_LIMITS[plan].dailyOnly &&
+    (cron.minutes.length > 1 || cron.hours.length > 1)
+  ) {
+    reasons.push(
+      `The ${plan} plan only allows crons that run at most once a day`,
+    );
+  }
+
+  return reasons;
+}
+
+/**
+ * Check a vercel.json cron config against Vercel's rules and plan limits.
+ * Returns every incompatibility found, or an empty array.
+ */
+export function checkVercelCompatibility(
+  config: VercelCronConfig,
+  plan: VercelPlan = "hobby",
+): VercelCompatibilityIssue[] {
+  const limits = VERCEL_PLAN_LIMITS[plan];
+  const issues: VercelCompatibilityIssue[] = [];
+
+  if (!limits) {
+    throw new Error(
+      `Unknown Vercel plan: ${plan} (expected ${VERCEL_PLANS.join(", ")})`,
+    );
+  }
+
+  if (config.crons.length > limits.maxCronJobs) {
+    issues.push({
+      reason: `The ${plan} plan allows at most ${limits.maxCronJobs} cron jobs, found ${config.crons.length}`,
+    });
+  }
+
+  for (const job of config.crons) {
+    const reasons: string[] = [];
+
+    if (typeof job.path !== "string" || !job.path.startsWith("/")) {
+      reasons.push('Path must start with "/"');
+    } else if (job.path.length > MAX_PATH_LENGTH) {
+      reasons.push(`Path is longer than ${MAX_PATH_LENGTH} characters`);
+    }
+
+    if (typeof job.schedule !== "string") {
+      reasons.push("Schedule must be a string");
+    } else {
+      reasons.push(...checkSchedule(job.schedule, plan));
+    }
+
+    for (const reason of reasons) {
+      issues.push({ path: job.path, schedule: job.schedule, reason });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,24 @@
+import { randomBytes } from "crypto";
+
+/** User agent of Vercel's cron invoker, which routes check to reject others */
+export const VERCEL_CRON_USER_AGENT = "vercel-cron/1.0";
+
+/**
+ * Headers of a request from Vercel's cron invoker to an app served at
+ * `baseUrl`, as seen by the app behind Vercel's proxy. There is no
+ * Content-Type since the invoker sends no body.
+ */
+export function getVercelCronHeaders(baseUrl: string): Record<string, string> {
+  const { host, protocol } = new URL(baseUrl);
+
+  return {
+    "user-agent": VERCEL_CRON_USER_AGENT,
+    // Region and request id, unique per request like on Vercel
+    "x-vercel-id": `dev1::${Date.now()}-${randomBytes(6).toString("hex")}`,
+    "x-vercel-deployment-url": host,
+    "x-forwarded-host": host,
+    "x-forwarded-proto": protocol.slice(0, -1),
+    "x-forwarded-for": "127.0.0.1",
+    "x-real-ip": "127.0.0.1",
+  };
+}
@@ -0,0 +1,196 @@
+import { formatSlackMessage, WebhookAlerts } from "../src/alerts";
+import { AlertPayload, CronExecutionResult } from "../src/types";
+
+describe("WebhookAlerts", () => {
+  const webhookUrl = "https://hooks.example.com/alerts";
+  const failure = {
+    path: "/api/crons/test1",
+    schedule: "* * * * *",
+    success: false,
+    outcome: "failure",
+    statusCode: 500,
+    duration: 120,
+    timestamp: new Date("2025-01-05T08:00:00.000Z"),
+    utcTime: "2025-01-05T08:00:00.000Z",
+    attempts: [{ attempt: 1, statusCode: 500, duration: 120 }],
+  } as CronExecutionResult;
+  const success = {
+    ...failure,
+    success: true,
+    outcome: "success",
+    statusCode: 200,
+  } as CronExecutionResult;
+
+  let mockFetch: jest.Mock;
+  let logger: Record<"debug" | "info" | "warn" | "error", jest.Mock>;
+
+  const sentBodies = () =>
+    mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body));
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+  });
+
+  it("should alert after the failure threshold and on recovery", async () => {
+    const alerts = new WebhookAlerts(
+      { webhookUrl, failureThreshold: 2 },
+      logger,
+      mockFetch
+    );
+
+    alerts.record(failure, 1);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    alerts.record(failure, 2);
+    alerts.record(success, 0);
+    await alerts.flush();
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      webhookUrl,
+      expect.objectContaining({
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+    expect(sentBodies()).toEqual([
+      {
+        type: "failure",
+        path: "/api/crons/test1",
+        schedule: "* * * * *",
+        consecutiveFailures: 2,
+        result: JSON.parse(JSON.stringify(failure)),
+      },
+      expect.objectContaining({ type: "recovery", consecutiveFailures: 2 }),
+    ]);
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "/api/crons/test1", alert: "failure" }),
+      "Alert sent: failure of /api/crons/test1"
+    );
+  });
+
+  it("should not send a recovery without a failure alert", async () => {
+    const alerts = new WebhookAlerts(
+      { webhookUrl, failureThreshold: 3 },
+      logger,
+      mockFetch
+    );
+
+    alerts.record(failure, 1);
+    alerts.record(success, 0);
+    await alerts.flush();
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should rate-limit repeat alerts for a job", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const alerts = new WebhookAlerts(
+      { webhookUrl, repeatInterval: 60000 },
+      logger,
+      mockFetch
+    );
+
+    alerts.record(failure, 1);
+    now.mockReturnValue(30000);
+    alerts.record(failure, 2);
+    alerts.record({ ...failure, path: "/api/crons/test2" }, 1);
+    now.mockReturnValue(60000);
+    alerts.record(failure, 3);
+    await alerts.flush();
+    now.mockRestore();
+
+    expect(
+      sentBodies().map((body) => [body.path, body.consecutiveFailures])
+    ).toEqual([
+      ["/api/crons/test1", 1],
+      ["/api/crons/test2", 1],
+      ["/api/crons/test1", 3],
+    ]);
+  });
+
+  it("should ignore skipped fires", async () => {
+    const alerts = new WebhookAlerts({ webhookUrl }, logger, mockFetch);
+
+    alerts.record({ ...failure, outcome: "skipped" }, 0);
+    await alerts.flush();
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should log webhook errors without throwing", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 403 });
+    const alerts = new WebhookAlerts({ webhookUrl }, logger, mockFetch);
+
+    alerts.record(failure, 1);
+    await alerts.flush();
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ error: "Webhook answered 403" }),
+      "Failed to send failure alert for /api/crons/test1: Webhook answered 403"
+    );
+  });
+
+  it("should post Slack messages in the slack format", async () => {
+    const alerts = new WebhookAlerts(
+      { webhookUrl, format: "slack", headers: { "X-Token": "abc" } },
+      logger,
+      mockFetch
+    );
+
+    alerts.record(failure, 1);
+    await alerts.flush();
+
+    expect(mockFetch.mock.calls[0][1].headers).toEqual({
+      "Content-Type": "application/json",
+      "X-Token": "abc",
+    });
+    expect(sentBodies()[0].text).toBe(
+      "/api/crons/test1 failed 1 time(s) in a row"
+    );
+  });
+
+  it("should reject invalid options", () => {
+    expect(
+      () => new WebhookAlerts({ webhookUrl: "not a url" }, logger)
+    ).toThrow("alerts.webhookUrl must be a valid URL");
+    expect(
+      () => new WebhookAlerts({ webhookUrl, format: "teams" as any }, logger)
+    ).toThrow("Invalid alert format: teams");
+    expect(
+      () => new WebhookAlerts({ webhookUrl, failureThreshold: 0 }, logger)
+    ).toThrow("alerts.failureThreshold must be a positive integer");
+  });
+
+  describe("formatSlackMessage", () => {
+    it("should list the result details and error", () => {
+      const payload: AlertPayload = {
+        type: "failure",
+        path: failure.path,
+        schedule: failure.schedule,
+        consecutiveFailures: 3,
+        result: { ...failure, error: "Request timed out" },
+      };
+
+      const message = formatSlackMessage(payload) as any;
+
+      expect(message.blocks[0].text.text).toContain(
+        "Cron job failing: `/api/crons/test1`"
+      );
+      expect(message.blocks[1].fields.map((f: any) => f.text)).toEqual([
+        "*Schedule*\n`* * * * *`",
+        "*Outcome*\nfailure",
+        "*Status*\n500",
+        "*Duration*\n120ms",
+        "*Attempts*\n1",
+        "*Fired at*\n2025-01-05T08:00:00.000Z",
+      ]);
+      expect(message.blocks[2].text.text).toBe("```Request timed out```");
+    });
+  });
+});
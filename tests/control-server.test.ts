@@ -0,0 +1,207 @@
+import * as http from "http";
+import { ControlServer, ControlledRunner } from "../src/control-server";
+import { CronExecutionResult } from "../src/types";
+
+describe("ControlServer", () => {
+  const jobs = [
+    { path: "/api/crons/test1", schedule: "* * * * *" },
+    { path: "/api/crons/test2", schedule: "0 8 * * *" },
+  ];
+  const lastResult = {
+    path: "/api/crons/test1",
+    schedule: "* * * * *",
+    success: true,
+    outcome: "success",
+    statusCode: 200,
+    timestamp: new Date("2025-01-05T08:00:00.000Z"),
+  } as CronExecutionResult;
+
+  let runner: jest.Mocked<ControlledRunner>;
+  let server: ControlServer;
+  let url: string;
+
+  beforeEach(async () => {
+    const paused = new Set<string>();
+    const getJobState = (path: string) => {
+      const job = jobs.find((j) => j.path === path);
+      if (!job) {
+        throw new Error(`Cron job not scheduled: ${path}`);
+      }
+      return {
+        ...job,
+        paused: paused.has(path),
+        running: false,
+        nextRun: new Date("2025-01-05T08:01:00.000Z"),
+        lastResult: path === lastResult.path ? lastResult : undefined,
+      };
+    };
+
+    runner = {
+      getStats: jest.fn(() => ({
+        totalJobs: 2,
+        successfulExecutions: 1,
+        failedExecutions: 0,
+        skippedExecutions: 0,
+        queuedExecutions: 0,
+        jobs: {},
+      })),
+      getJobStates: jest.fn(() => jobs.map((job) => getJobState(job.path))),
+      getJobState: jest.fn(getJobState),
+      triggerJob: jest.fn(async (path: string) => {
+        getJobState(path);
+        return { ...lastResult, path };
+      }),
+      pauseJob: jest.fn((path: string) => paused.add(path)),
+      resumeJob: jest.fn((path: string) => paused.delete(path)),
+    } as unknown as jest.Mocked<ControlledRunner>;
+
+    server = new ControlServer(runner, { port: 0 });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const post = (endpoint: string, body: unknown) =>
+    fetch(`${url}${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  it("should list jobs with their next run and last result", async () => {
+    const res = await fetch(`${url}/api/jobs`);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual([
+      {
+        ...jobs[0],
+        paused: false,
+        running: false,
+        nextRun: "2025-01-05T08:01:00.000Z",
+        lastResult: JSON.parse(JSON.stringify(lastResult)),
+      },
+      {
+        ...jobs[1],
+        paused: false,
+        running: false,
+        nextRun: "2025-01-05T08:01:00.000Z",
+      },
+    ]);
+  });
+
+  it("should return stats", async () => {
+    const res = await fetch(`${url}/api/stats`);
+
+    expect(await res.json()).toMatchObject({ totalJobs: 2 });
+  });
+
+  it("should trigger a job", async () => {
+    const res = await post("/api/jobs/trigger", { path: "/api/crons/test2" });
+
+    expect(res.status).toBe(200);
+    expect(runner.triggerJob).toHaveBeenCalledWith("/api/crons/test2");
+    expect(await res.json()).toMatchObject({ path: "/api/crons/test2" });
+  });
+
+  it("should pause and resume a job", async () => {
+    let res = await post("/api/jobs/pause", { path: "/api/crons/test1" });
+    expect(await res.json()).toMatchObject({ paused: true });
+
+    res = await post("/api/jobs/resume", { path: "/api/crons/test1" });
+    expect(await res.json()).toMatchObject({ paused: false });
+    expect(runner.resumeJob).toHaveBeenCalledWith("/api/crons/test1");
+  });
+
+  it("should answer 404 for unknown jobs", async () => {
+    const res = await post("/api/jobs/trigger", { path: "/api/crons/missing" });
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({
+      error: "Cron job not scheduled: /api/crons/missing",
+    });
+  });
+
+  it("should answer 400 without a job path", async () => {
+    const res = await post("/api/jobs/pause", {});
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should reject posts from other origins", async () => {
+    const res = await fetch(`${url}/api/jobs/trigger`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Origin: "http://evil.example",
+      },
+      body: JSON.stringify({ path: "/api/crons/test1" }),
+    });
+
+    expect(res.status).toBe(403);
+    expect(runner.triggerJob).not.toHaveBeenCalled();
+  });
+
+  const getStatus = (serverUrl: string, host: string) =>
+    new Promise<number | undefined>((resolve, reject) => {
+      http
+        .get(`${serverUrl}/api/jobs`, { headers: { Host: host } }, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        })
+        .on("error", reject);
+    });
+
+  it("should only answer requests for its own host", async () => {
+    const { port } = new URL(url);
+
+    // DNS rebinding sends the attacker's host name
+    expect(await getStatus(url, `evil.example:${port}`)).toBe(403);
+    expect(await getStatus(url, `localhost:${port}`)).toBe(200);
+    expect(await getStatus(url, "localhost:18787")).toBe(403);
+  });
+
+  it("should answer allowed hosts and mapped ports on all interfaces", async () => {
+    const shared = new ControlServer(runner, {
+      port: 0,
+      host: "0.0.0.0",
+      allowedHosts: ["Cron-Runner"],
+    });
+    const { port } = new URL(await shared.start());
+    const sharedUrl = `http://127.0.0.1:${port}`;
+
+    try {
+      expect(await getStatus(sharedUrl, `cron-runner:${port}`)).toBe(200);
+      expect(await getStatus(sharedUrl, "cron-runner")).toBe(200);
+      expect(await getStatus(sharedUrl, "localhost:18787")).toBe(200);
+      expect(await getStatus(sharedUrl, "evil.example:18787")).toBe(403);
+    } finally {
+      await shared.stop();
+    }
+  });
+
+  it("should only take a JSON body", async () => {
+    let res = await fetch(`${url}/api/jobs/trigger`, {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: JSON.stringify({ path: "/api/crons/test1" }),
+    });
+    expect(res.status).toBe(415);
+
+    res = await fetch(`${url}/api/jobs/trigger?path=/api/crons/test1`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(400);
+    expect(runner.triggerJob).not.toHaveBeenCalled();
+  });
+
+  it("should serve the dashboard", async () => {
+    const res = await fetch(url);
+
+    expect(res.headers.get("content-type")).toContain("text/html");
+    expect(await res.text()).toContain("/api/jobs");
+  });
+});
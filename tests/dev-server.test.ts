@@ -0,0 +1,106 @@
+import { DevServer } from "../src/dev-server";
+
+describe("DevServer", () => {
+  const node = (script: string) => [process.execPath, "-e", script];
+
+  let stdout: string[];
+  let stderr: string[];
+  let server: DevServer | undefined;
+
+  const create = (command: string[], prefix?: string) =>
+    (server = new DevServer({
+      command,
+      prefix,
+      stdout: { write: (line: string) => stdout.push(line) },
+      stderr: { write: (line: string) => stderr.push(line) },
+    }));
+
+  const firstLine = () =>
+    new Promise<void>((resolve) => {
+      const check = () =>
+        stdout.length > 0 ? resolve() : setTimeout(check, 10);
+      check();
+    });
+
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+  });
+
+  afterEach(async () => {
+    await server?.stop("SIGKILL");
+    server = undefined;
+  });
+
+  it("should prefix each line of output", async () => {
+    const exit = await create(
+      node(
+        'console.log("ready on 3000\\nGET /"); console.error("warn"); process.stdout.write("partial")'
+      ),
+      "[next] "
+    ).start();
+
+    expect(exit).toEqual({ code: 0, signal: null });
+    expect(stdout).toEqual([
+      "[next] ready on 3000\n",
+      "[next] GET /\n",
+      "[next] partial\n",
+    ]);
+    expect(stderr).toEqual(["[next] warn\n"]);
+  });
+
+  it("should default the prefix to the command name", async () => {
+    await create(["node", "-e", 'console.log("hi")']).start();
+
+    expect(stdout).toEqual(["[node] hi\n"]);
+  });
+
+  it("should resolve with the exit code", async () => {
+    const exit = await create(node("process.exit(3)")).start();
+
+    expect(exit.code).toBe(3);
+    expect(server!.isRunning()).toBe(false);
+  });
+
+  it("should reject when the command cannot be started", async () => {
+    await expect(
+      create(["nextjs-crons-missing-command"]).start()
+    ).rejects.toThrow("Failed to start nextjs-crons-missing-command");
+  });
+
+  it("should forward the signal on stop", async () => {
+    const devServer = create(
+      node(
+        'process.on("SIGTERM", () => { console.log("bye"); process.exit(0); }); console.log("up"); setInterval(() => {}, 1000)'
+      )
+    );
+    const exit = devServer.start();
+    await firstLine();
+
+    expect(devServer.isRunning()).toBe(true);
+    await devServer.stop();
+
+    expect(await exit).toEqual({ code: 0, signal: null });
+    expect(stdout).toEqual(["[node] up\n", "[node] bye\n"]);
+  });
+
+  it("should kill the command if it ignores the signal", async () => {
+    const devServer = create(
+      node(
+        'process.on("SIGTERM", () => {}); console.log("up"); setInterval(() => {}, 1000)'
+      )
+    );
+    devServer.start();
+    await firstLine();
+
+    const exit = await devServer.stop("SIGTERM", 100);
+
+    expect(exit).toEqual({ code: null, signal: "SIGKILL" });
+  });
+
+  it("should require a command", () => {
+    expect(() => new DevServer({ command: [] })).toThrow(
+      "A server command is required"
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { EventEmitter } from "events";
+import { statsRecord, streamEvents } from "../src/event-stream";
+import { CronEventRecord, CronExecutionResult } from "../src/types";
+
+describe("streamEvents", () => {
+  const job = { path: "/api/crons/test1", schedule: "* * * * *" };
+  const result = {
+    ...job,
+    success: true,
+    outcome: "success",
+    statusCode: 200,
+    timestamp: new Date("2025-01-05T08:00:00.000Z"),
+  } as CronExecutionResult;
+
+  let runner: EventEmitter;
+  let records: CronEventRecord[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    runner = new EventEmitter();
+    records = [];
+    unsubscribe = streamEvents(runner as any, (record) =>
+      records.push(record)
+    );
+  });
+
+  it("should turn events into records with their fields", () => {
+    runner.emit("started", [job]);
+    runner.emit("job:success", job, result);
+    runner.emit("job:retry", job, { attempt: 1, statusCode: 503 }, 1000);
+    runner.emit("config:error", new Error("Invalid JSON"));
+
+    expect(records).toEqual([
+      { event: "started", time: expect.any(String), jobs: [job] },
+      { event: "job:success", time: expect.any(String), job, result },
+      {
+        event: "job:retry",
+        time: expect.any(String),
+        job,
+        attempt: { attempt: 1, statusCode: 503 },
+        delay: 1000,
+      },
+      { event: "config:error", time: expect.any(String), error: "Invalid JSON" },
+    ]);
+    expect(new Date(records[0].time).toISOString()).toBe(records[0].time);
+  });
+
+  it("should serialize results as plain JSON", () => {
+    runner.emit("job:failure", job, result);
+
+    expect(JSON.parse(JSON.stringify(records[0])).result.timestamp).toBe(
+      "2025-01-05T08:00:00.000Z"
+    );
+  });
+
+  it("should stop listening once unsubscribed", () => {
+    unsubscribe();
+    runner.emit("job:start", job);
+
+    expect(records).toEqual([]);
+    expect(runner.listenerCount("job:start")).toBe(0);
+  });
+
+  it("should build stats records", () => {
+    const stats = {
+      totalJobs: 1,
+      successfulExecutions: 1,
+      failedExecutions: 0,
+      skippedExecutions: 0,
+      queuedExecutions: 0,
+      jobs: {},
+    };
+
+    expect(statsRecord(stats)).toEqual({
+      event: "stats",
+      time: expect.any(String),
+      stats,
+    });
+  });
+});
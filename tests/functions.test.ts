@@ -0,0 +1,63 @@
+import {
+  findMaxDuration,
+  getRouteFileCandidates,
+  globToRegExp,
+} from "../src/functions";
+
+describe("functions", () => {
+  describe("globToRegExp", () => {
+    it("should match single segments with *", () => {
+      const regex = globToRegExp("app/api/*/route.ts");
+
+      expect(regex.test("app/api/crons/route.ts")).toBe(true);
+      expect(regex.test("app/api/crons/daily/route.ts")).toBe(false);
+    });
+
+    it("should match any depth with **", () => {
+      const regex = globToRegExp("app/api/**/*.ts");
+
+      expect(regex.test("app/api/route.ts")).toBe(true);
+      expect(regex.test("app/api/crons/daily/route.ts")).toBe(true);
+      expect(regex.test("pages/api/crons.ts")).toBe(false);
+    });
+
+    it("should support alternatives and a leading ./", () => {
+      const regex = globToRegExp("./pages/api/*.{js,ts}");
+
+      expect(regex.test("pages/api/cron.js")).toBe(true);
+      expect(regex.test("pages/api/cron.ts")).toBe(true);
+      expect(regex.test("pages/api/cron.mjs")).toBe(false);
+    });
+  });
+
+  describe("getRouteFileCandidates", () => {
+    it("should list App Router, Pages Router and api/ files", () => {
+      const candidates = getRouteFileCandidates("/api/crons/daily?x=1");
+
+      expect(candidates).toContain("app/api/crons/daily/route.ts");
+      expect(candidates).toContain("src/app/api/crons/daily/route.js");
+      expect(candidates).toContain("pages/api/crons/daily.ts");
+      expect(candidates).toContain("pages/api/crons/daily/index.js");
+      expect(candidates).toContain("api/crons/daily.ts");
+    });
+  });
+
+  describe("findMaxDuration", () => {
+    it("should return the maxDuration of the first matching glob", () => {
+      const functions = {
+        "app/api/crons/slow/route.ts": { maxDuration: 300 },
+        "app/api/**/*.ts": { maxDuration: 60 },
+      };
+
+      expect(findMaxDuration(functions, "/api/crons/slow")).toBe(300);
+      expect(findMaxDuration(functions, "/api/crons/fast")).toBe(60);
+    });
+
+    it("should ignore globs without maxDuration", () => {
+      const functions = { "app/api/**/*.ts": { memory: 1024 } };
+
+      expect(findMaxDuration(functions, "/api/crons/fast")).toBeUndefined();
+      expect(findMaxDuration(undefined, "/api/crons/fast")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ExecutionHistory } from "../src/history";
+import { CronExecutionResult } from "../src/types";
+
+function makeResult(
+  overrides: Partial<CronExecutionResult> = {}
+): CronExecutionResult {
+  return {
+    path: "/api/crons/test1",
+    schedule: "* * * * *",
+    success: true,
+    outcome: "success",
+    statusCode: 200,
+    timestamp: new Date("2025-01-05T08:00:00.000Z"),
+    duration: 12,
+    timezone: "UTC",
+    utcTime: "2025-01-05T08:00:00.000Z",
+    localTime: "2025-01-05T08:00:00.000+00:00",
+    attempts: [],
+    ...overrides,
+  };
+}
+
+describe("ExecutionHistory", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "nextjs-crons-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should keep only the most recent results", () => {
+    const history = new ExecutionHistory({ limit: 2 });
+
+    history.add(makeResult({ statusCode: 1 }));
+    history.add(makeResult({ statusCode: 2 }));
+    history.add(makeResult({ statusCode: 3 }));
+
+    expect(history.toArray().map((r) => r.statusCode)).toEqual([2, 3]);
+    expect(history.query().map((r) => r.statusCode)).toEqual([3, 2]);
+  });
+
+  it("should filter by path, status, since and limit", () => {
+    const history = new ExecutionHistory();
+
+    history.add(makeResult());
+    history.add(
+      makeResult({
+        success: false,
+        outcome: "failure",
+        statusCode: 500,
+        timestamp: new Date("2025-01-05T09:00:00.000Z"),
+      })
+    );
+    history.add(
+      makeResult({
+        path: "/api/crons/test2",
+        timestamp: new Date("2025-01-05T10:00:00.000Z"),
+      })
+    );
+
+    expect(history.query({ path: "/api/crons/test2" })).toHaveLength(1);
+    expect(history.query({ status: "failure" })[0].statusCode).toBe(500);
+    expect(
+      history.query({ since: new Date("2025-01-05T09:00:00.000Z") })
+    ).toHaveLength(2);
+    expect(history.query({ limit: 1 })[0].path).toBe("/api/crons/test2");
+  });
+
+  it("should persist results to a JSON-lines file", () => {
+    const file = path.join(tmpDir, "nested", "history.jsonl");
+    const history = new ExecutionHistory({ file });
+
+    history.add(makeResult());
+    history.add(makeResult({ outcome: "timeout", success: false }));
+
+    const lines = fs.readFileSync(file, "utf-8").trim().split("\n");
+    expect(lines).toHaveLength(2);
+
+    const results = ExecutionHistory.readFile(file);
+    expect(results[1].outcome).toBe("timeout");
+    expect(results[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it("should load previous results from the file", () => {
+    const file = path.join(tmpDir, "history.jsonl");
+    new ExecutionHistory({ file }).add(makeResult());
+    fs.appendFileSync(file, "{ partial line");
+
+    const history = new ExecutionHistory({ file });
+
+    expect(history.query()).toHaveLength(1);
+  });
+
+  it("should trim the file to the last results", () => {
+    const file = path.join(tmpDir, "history.jsonl");
+    const history = new ExecutionHistory({ file, limit: 2 });
+    const countLines = () =>
+      fs.readFileSync(file, "utf-8").trim().split("\n").length;
+
+    for (let i = 1; i <= 3; i++) {
+      history.add(makeResult({ statusCode: i }));
+    }
+    expect(countLines()).toBe(3);
+
+    history.add(makeResult({ statusCode: 4 }));
+    expect(countLines()).toBe(2);
+    expect(
+      ExecutionHistory.readFile(file).map((r) => r.statusCode)
+    ).toEqual([3, 4]);
+  });
+
+  it("should trim a file written with a higher limit on load", () => {
+    const file = path.join(tmpDir, "history.jsonl");
+    const previous = new ExecutionHistory({ file });
+    for (let i = 1; i <= 4; i++) {
+      previous.add(makeResult({ statusCode: i }));
+    }
+
+    new ExecutionHistory({ file, limit: 2 });
+
+    expect(
+      ExecutionHistory.readFile(file).map((r) => r.statusCode)
+    ).toEqual([3, 4]);
+  });
+
+  it("should return no results for a missing file", () => {
+    expect(
+      ExecutionHistory.readFile(path.join(tmpDir, "missing.jsonl"))
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { formatJUnitReport } from "../src/junit";
+import { CronExecutionResult } from "../src/types";
+
+describe("formatJUnitReport", () => {
+  const base = {
+    schedule: "* * * * *",
+    timestamp: new Date("2025-01-05T08:00:00.000Z"),
+    timezone: "UTC",
+    utcTime: "2025-01-05T08:00:00.000Z",
+    localTime: "2025-01-05T08:00:00.000+00:00",
+  };
+  const success: CronExecutionResult = {
+    ...base,
+    path: "/api/crons/ok",
+    success: true,
+    outcome: "success",
+    statusCode: 200,
+    duration: 120,
+    attempts: [{ attempt: 1, statusCode: 200, duration: 120 }],
+  };
+  const failure: CronExecutionResult = {
+    ...base,
+    path: "/api/crons/fail?a=1&b=<2>",
+    success: false,
+    outcome: "failure",
+    statusCode: 500,
+    duration: 2500,
+    attempts: [
+      { attempt: 1, statusCode: 503, duration: 1000 },
+      { attempt: 2, statusCode: 500, duration: 1500 },
+    ],
+  };
+  const timeout: CronExecutionResult = {
+    ...base,
+    path: "/api/crons/slow",
+    success: false,
+    outcome: "timeout",
+    error: "Timed out after 1000ms",
+    duration: 1000,
+    attempts: [
+      {
+        attempt: 1,
+        error: "Timed out after 1000ms",
+        timedOut: true,
+        duration: 1000,
+      },
+    ],
+  };
+
+  it("should write one test case per result", () => {
+    const xml = formatJUnitReport([success, failure, timeout]);
+
+    expect(xml).toContain('<?xml version="1.0" encoding="UTF-8"?>');
+    expect(xml).toContain(
+      '<testsuite name="nextjs-crons" tests="3" failures="2" errors="0" skipped="0" time="3.620" timestamp="2025-01-05T08:00:00.000Z">'
+    );
+    expect(xml).toContain(
+      '<testcase name="/api/crons/ok" classname="nextjs-crons" time="0.120"/>'
+    );
+  });
+
+  it("should use the status code or error as the failure message", () => {
+    const xml = formatJUnitReport([failure, timeout]);
+
+    expect(xml).toContain(
+      '<testcase name="/api/crons/fail?a=1&amp;b=&lt;2&gt;" classname="nextjs-crons" time="2.500">'
+    );
+    expect(xml).toContain(
+      '<failure message="Status 500" type="failure">Attempt 1: status 503 (1000ms)\nAttempt 2: status 500 (1500ms)</failure>'
+    );
+    expect(xml).toContain(
+      '<failure message="Timed out after 1000ms" type="timeout">'
+    );
+  });
+
+  it("should report skipped fires as skipped", () => {
+    const xml = formatJUnitReport([
+      {
+        ...base,
+        path: "/api/crons/busy",
+        success: false,
+        outcome: "skipped",
+        attempts: [],
+      },
+    ]);
+
+    expect(xml).toContain('skipped="1"');
+    expect(xml).toContain(
+      '<skipped message="Previous run still in progress"/>'
+    );
+  });
+
+  it("should use the skip reason as the skipped message", () => {
+    const xml = formatJUnitReport([
+      {
+        ...base,
+        path: "/api/crons/busy",
+        success: false,
+        outcome: "skipped",
+        skipReason: "Server unavailable",
+        attempts: [],
+      },
+    ]);
+
+    expect(xml).toContain('<skipped message="Server unavailable"/>');
+  });
+
+  it("should accept a suite name", () => {
+    const xml = formatJUnitReport([success], { name: "preview crons" });
+
+    expect(xml).toContain('<testsuites name="preview crons"');
+    expect(xml).toContain('classname="preview crons"');
+  });
+});
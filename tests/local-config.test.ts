@@ -0,0 +1,105 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  checkJobSettings,
+  checkJobSettingTypes,
+  getLocalConfigPath,
+  loadLocalConfig,
+} from "../src/local-config";
+
+describe("local config", () => {
+  let tmpDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "nextjs-crons-"));
+    file = path.join(tmpDir, "vercel.local.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should put .local before the config file's extension", () => {
+    expect(getLocalConfigPath("./vercel.json")).toBe("./vercel.local.json");
+    expect(getLocalConfigPath("config/crons.json")).toBe(
+      "config/crons.local.json"
+    );
+    expect(getLocalConfigPath("crons")).toBe("crons.local");
+  });
+
+  it("should read the settings of each job", () => {
+    const jobs = {
+      "/api/crons/sync": {
+        method: "POST",
+        headers: { "X-Source": "local" },
+        body: { full: true },
+        query: { limit: 10 },
+        timeout: 5000,
+        description: "Full sync",
+      },
+      "/api/crons/cleanup": { enabled: false },
+    };
+    fs.writeFileSync(file, JSON.stringify({ jobs }));
+
+    expect(loadLocalConfig(file)).toEqual(jobs);
+  });
+
+  it("should return no settings without a file", () => {
+    expect(loadLocalConfig(file)).toEqual({});
+  });
+
+  it("should report invalid files", () => {
+    fs.writeFileSync(file, "{");
+    expect(() => loadLocalConfig(file)).toThrow(`Invalid JSON in ${file}`);
+
+    fs.writeFileSync(file, JSON.stringify({ jobs: [] }));
+    expect(() => loadLocalConfig(file)).toThrow(
+      '"jobs" must map cron paths to settings'
+    );
+  });
+
+  it("should reject invalid settings", () => {
+    const check = (settings: unknown) => () =>
+      checkJobSettings(settings as any, "/api/crons/sync");
+
+    expect(check({ enabled: "no" })).toThrow(
+      "Invalid settings for /api/crons/sync: enabled must be a boolean"
+    );
+    expect(check({ method: "GET /" })).toThrow("invalid method GET /");
+    expect(check({ headers: { "X-Count": 1 } })).toThrow(
+      "headers must map names to strings"
+    );
+    expect(check({ method: "head", body: "x" })).toThrow(
+      "a body cannot be sent with HEAD"
+    );
+    expect(check({ query: { ids: [1, 2] } })).toThrow(
+      "query must map names to strings, numbers or booleans"
+    );
+    expect(check({ timeout: 0 })).toThrow("timeout must be a positive number");
+    expect(check({ overlap: "drop" })).toThrow(
+      "Invalid settings for /api/crons/sync: invalid overlap policy drop (expected allow, skip or queue)"
+    );
+  });
+
+  it("should leave the body and method to be checked once merged", () => {
+    expect(() =>
+      checkJobSettingTypes({ body: "x" }, "/api/crons/sync")
+    ).not.toThrow();
+
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ jobs: { "/api/crons/sync": { overlap: "drop" } } })
+    );
+    expect(() => loadLocalConfig(file)).toThrow(
+      `Invalid settings for /api/crons/sync in ${file}: invalid overlap policy drop`
+    );
+
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ jobs: { "/api/crons/sync": { body: "x" } } })
+    );
+    expect(loadLocalConfig(file)).toEqual({ "/api/crons/sync": { body: "x" } });
+  });
+});
@@ -0,0 +1,155 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  ConsoleLogger,
+  FileLogger,
+  JsonLogger,
+  parseSize,
+} from "../src/logger";
+
+describe("logger", () => {
+  describe("ConsoleLogger", () => {
+    let logSpy: jest.SpyInstance;
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      logSpy = jest.spyOn(console, "log").mockImplementation();
+      errorSpy = jest.spyOn(console, "error").mockImplementation();
+    });
+
+    afterEach(() => {
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it("should filter info and debug by verbosity", () => {
+      new ConsoleLogger(0).info({}, "info");
+      new ConsoleLogger(1).debug({}, "debug");
+      expect(logSpy).not.toHaveBeenCalled();
+
+      new ConsoleLogger(1).info({}, "info");
+      new ConsoleLogger(2).debug({}, "debug");
+      expect(logSpy).toHaveBeenCalledTimes(2);
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T.*Z\] info$/)
+      );
+    });
+
+    it("should always write warnings and errors to stderr", () => {
+      const logger = new ConsoleLogger(0);
+
+      logger.warn({ path: "/api/crons/test1" }, "Skipped");
+      logger.error({ path: "/api/crons/test1" }, "Failed");
+
+      expect(errorSpy).toHaveBeenCalledTimes(2);
+      expect(logSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("JsonLogger", () => {
+    it("should write one JSON object per entry", () => {
+      const lines: string[] = [];
+      const logger = new JsonLogger({
+        stream: { write: (line: string) => lines.push(line) },
+      });
+
+      logger.info({ path: "/api/crons/test1", statusCode: 200 }, "Success");
+      logger.error({ error: new Error("boom") }, "Error");
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0].endsWith("\n")).toBe(true);
+      expect(JSON.parse(lines[0])).toEqual({
+        time: expect.any(String),
+        level: "info",
+        msg: "Success",
+        path: "/api/crons/test1",
+        statusCode: 200,
+      });
+      expect(JSON.parse(lines[1]).error).toMatchObject({
+        name: "Error",
+        message: "boom",
+      });
+    });
+
+    it("should drop entries below its level", () => {
+      const lines: string[] = [];
+      const logger = new JsonLogger({
+        level: "warn",
+        stream: { write: (line: string) => lines.push(line) },
+      });
+
+      logger.debug({}, "debug");
+      logger.info({}, "info");
+      logger.warn({}, "warn");
+
+      expect(lines.map((line) => JSON.parse(line).msg)).toEqual(["warn"]);
+    });
+  });
+
+  describe("FileLogger", () => {
+    let tmpDir: string;
+    let file: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "nextjs-crons-"));
+      file = path.join(tmpDir, "logs", "crons.log");
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should append entries, creating the directory", () => {
+      const logger = new FileLogger({ file });
+
+      logger.info({ path: "/api/crons/test1" }, "Scheduled");
+      logger.info({ path: "/api/crons/test2" }, "Scheduled");
+
+      const lines = fs.readFileSync(file, "utf-8").trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line).path)).toEqual([
+        "/api/crons/test1",
+        "/api/crons/test2",
+      ]);
+    });
+
+    it("should rotate by size and keep maxFiles old files", () => {
+      const logger = new FileLogger({ file, maxSize: 200, maxFiles: 2 });
+      const read = (name: string) =>
+        JSON.parse(fs.readFileSync(name, "utf-8").trim().split("\n")[0]);
+
+      // Each entry is over 100 bytes, so every second one rotates
+      for (let index = 0; index < 4; index++) {
+        logger.info({ index, padding: "x".repeat(40) }, "Entry");
+      }
+
+      expect(read(file).index).toBe(3);
+      expect(read(`${file}.1`).index).toBe(2);
+      expect(read(`${file}.2`).index).toBe(1);
+      expect(fs.existsSync(`${file}.3`)).toBe(false);
+    });
+
+    it("should count the size of an existing file", () => {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, "x".repeat(150));
+
+      new FileLogger({ file, maxSize: 200 }).info({}, "Entry");
+
+      expect(fs.readFileSync(`${file}.1`, "utf-8")).toBe("x".repeat(150));
+      expect(JSON.parse(fs.readFileSync(file, "utf-8")).msg).toBe("Entry");
+    });
+  });
+
+  describe("parseSize", () => {
+    it("should parse byte sizes with units", () => {
+      expect(parseSize("512")).toBe(512);
+      expect(parseSize("500k")).toBe(500 * 1024);
+      expect(parseSize("10MB")).toBe(10 * 1024 * 1024);
+      expect(parseSize("1.5g")).toBe(1.5 * 1024 ** 3);
+    });
+
+    it("should reject invalid sizes", () => {
+      expect(() => parseSize("ten")).toThrow('Invalid size "ten"');
+    });
+  });
+});
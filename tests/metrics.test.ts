@@ -0,0 +1,170 @@
+import { EventEmitter } from "events";
+import { CronMetrics, MetricsServer } from "../src/metrics";
+import { CronExecutionResult, CronJobState } from "../src/types";
+
+describe("metrics", () => {
+  const job = { path: "/api/crons/test1", schedule: "* * * * *" };
+  const result = (fields: Partial<CronExecutionResult>) =>
+    ({
+      ...job,
+      success: true,
+      outcome: "success",
+      statusCode: 200,
+      duration: 300,
+      timestamp: new Date("2025-01-05T08:00:00.000Z"),
+      ...fields,
+    }) as CronExecutionResult;
+
+  let runner: EventEmitter & { getJobStates: jest.Mock };
+  let states: CronJobState[];
+
+  beforeEach(() => {
+    states = [{ ...job, paused: false, running: false }];
+    runner = Object.assign(new EventEmitter(), {
+      getJobStates: jest.fn(() => states),
+    });
+  });
+
+  describe("CronMetrics", () => {
+    it("should count executions by outcome and status code", () => {
+      const metrics = new CronMetrics(runner as any);
+
+      runner.emit("job:success", job, result({}));
+      runner.emit("job:success", job, result({}));
+      runner.emit(
+        "job:failure",
+        job,
+        result({ success: false, outcome: "failure", statusCode: 500 })
+      );
+      runner.emit(
+        "job:failure",
+        job,
+        result({
+          success: false,
+          outcome: "timeout",
+          statusCode: undefined,
+          error: "Timed out",
+        })
+      );
+
+      const text = metrics.render();
+      expect(text).toContain("# TYPE nextjs_crons_executions_total counter");
+      expect(text).toContain(
+        'nextjs_crons_executions_total{path="/api/crons/test1",outcome="success",status_code="200"} 2'
+      );
+      expect(text).toContain(
+        'nextjs_crons_executions_total{path="/api/crons/test1",outcome="failure",status_code="500"} 1'
+      );
+      expect(text).toContain(
+        'nextjs_crons_executions_total{path="/api/crons/test1",outcome="timeout",status_code=""} 1'
+      );
+    });
+
+    it("should record durations in a cumulative histogram", () => {
+      const metrics = new CronMetrics(runner as any, [0.1, 1]);
+
+      runner.emit("job:success", job, result({ duration: 50 }));
+      runner.emit("job:success", job, result({ duration: 500 }));
+      runner.emit("job:success", job, result({ duration: 5000 }));
+
+      const text = metrics.render();
+      expect(text).toContain(
+        'nextjs_crons_execution_duration_seconds_bucket{path="/api/crons/test1",le="0.1"} 1'
+      );
+      expect(text).toContain(
+        'nextjs_crons_execution_duration_seconds_bucket{path="/api/crons/test1",le="1"} 2'
+      );
+      expect(text).toContain(
+        'nextjs_crons_execution_duration_seconds_bucket{path="/api/crons/test1",le="+Inf"} 3'
+      );
+      expect(text).toContain(
+        'nextjs_crons_execution_duration_seconds_sum{path="/api/crons/test1"} 5.55'
+      );
+      expect(text).toContain(
+        'nextjs_crons_execution_duration_seconds_count{path="/api/crons/test1"} 3'
+      );
+    });
+
+    it("should expose the last success time and scheduled tasks", () => {
+      const metrics = new CronMetrics(runner as any);
+      states.push({
+        path: "/api/crons/test2",
+        schedule: "0 8 * * *",
+        paused: true,
+        running: false,
+      });
+
+      runner.emit("job:success", job, result({}));
+      runner.emit(
+        "job:failure",
+        job,
+        result({
+          success: false,
+          outcome: "failure",
+          timestamp: new Date("2025-01-05T09:00:00.000Z"),
+        })
+      );
+
+      const text = metrics.render();
+      expect(text).toContain(
+        'nextjs_crons_last_success_timestamp_seconds{path="/api/crons/test1"} 1736064000'
+      );
+      expect(text).toContain("nextjs_crons_scheduled_tasks 2");
+      expect(text).toContain("nextjs_crons_paused_tasks 1");
+    });
+
+    it("should escape label values", () => {
+      const metrics = new CronMetrics(runner as any);
+      const odd = { path: '/api/crons/"quoted"\\', schedule: "* * * * *" };
+
+      runner.emit("job:success", odd, result(odd));
+
+      expect(metrics.render()).toContain(
+        'path="/api/crons/\\"quoted\\"\\\\"'
+      );
+    });
+  });
+
+  describe("MetricsServer", () => {
+    let server: MetricsServer;
+    let url: string;
+
+    beforeEach(async () => {
+      server = new MetricsServer(runner as any, { port: 0 });
+      url = await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it("should serve metrics in the Prometheus text format", async () => {
+      runner.emit("job:success", job, result({}));
+
+      const res = await fetch(`${url}/metrics`);
+
+      expect(res.headers.get("content-type")).toContain("text/plain");
+      expect(await res.text()).toContain("nextjs_crons_executions_total{");
+    });
+
+    it("should report healthy while jobs are scheduled", async () => {
+      let res = await fetch(`${url}/healthz`);
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ status: "ok", scheduledTasks: 1 });
+
+      states = [];
+      res = await fetch(`${url}/healthz`);
+      expect(res.status).toBe(503);
+      expect(await res.json()).toEqual({
+        status: "stopped",
+        scheduledTasks: 0,
+      });
+    });
+
+    it("should answer 404 for other paths", async () => {
+      const res = await fetch(`${url}/other`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  findProjectConfig,
+  flattenSettings,
+  getProfileLayers,
+  mergeSettings,
+} from "../src/project-config";
+
+describe("project config", () => {
+  let tmpDir: string;
+
+  const writeJson = (file: string, value: unknown) =>
+    fs.writeFileSync(path.join(tmpDir, file), JSON.stringify(value));
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "nextjs-crons-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("findProjectConfig", () => {
+    it("should read nextjs-crons.config.json first", () => {
+      writeJson("nextjs-crons.config.json", { baseUrl: "http://a:3000" });
+      writeJson("package.json", { "nextjs-crons": { baseUrl: "http://b" } });
+
+      expect(findProjectConfig(tmpDir)).toEqual({
+        file: "nextjs-crons.config.json",
+        config: { baseUrl: "http://a:3000" },
+      });
+    });
+
+    it("should fall back to the package.json key", () => {
+      writeJson("package.json", {
+        name: "app",
+        "nextjs-crons": { timezone: "Europe/Paris" },
+      });
+
+      expect(findProjectConfig(tmpDir)).toEqual({
+        file: "package.json",
+        config: { timezone: "Europe/Paris" },
+      });
+    });
+
+    it("should return undefined without a config", () => {
+      expect(findProjectConfig(tmpDir)).toBeUndefined();
+
+      writeJson("package.json", { name: "app" });
+      expect(findProjectConfig(tmpDir)).toBeUndefined();
+    });
+
+    it("should reject unknown options and profiles", () => {
+      writeJson("nextjs-crons.config.json", { baseURL: "http://a" });
+      expect(() => findProjectConfig(tmpDir)).toThrow(
+        'Unknown option "baseURL" in nextjs-crons.config.json'
+      );
+
+      writeJson("nextjs-crons.config.json", {
+        profiles: { ci: { retries: 3 } },
+      });
+      expect(() => findProjectConfig(tmpDir)).toThrow(
+        'Unknown option "retries" in profile "ci" of nextjs-crons.config.json'
+      );
+
+      writeJson("nextjs-crons.config.json", { defaultProfile: "dev" });
+      expect(() => findProjectConfig(tmpDir)).toThrow(
+        'Default profile "dev" is not defined in nextjs-crons.config.json'
+      );
+    });
+
+    it("should report invalid JSON", () => {
+      fs.writeFileSync(path.join(tmpDir, "nextjs-crons.config.json"), "{");
+
+      expect(() => findProjectConfig(tmpDir)).toThrow(
+        "Invalid nextjs-crons.config.json"
+      );
+    });
+  });
+
+  describe("getProfileLayers", () => {
+    const loaded = {
+      file: "nextjs-crons.config.json",
+      config: {
+        baseUrl: "http://localhost:3000",
+        defaultProfile: "dev",
+        profiles: {
+          dev: { verbose: 1 },
+          docker: { baseUrl: "http://app:3000" },
+        },
+      },
+    };
+
+    it("should put the selected profile above the top-level options", () => {
+      expect(getProfileLayers(loaded, "docker")).toEqual({
+        profile: "docker",
+        layers: [
+          {
+            source: "nextjs-crons.config.json",
+            options: { baseUrl: "http://localhost:3000" },
+          },
+          {
+            source: 'profile "docker" (nextjs-crons.config.json)',
+            options: { baseUrl: "http://app:3000" },
+          },
+        ],
+      });
+    });
+
+    it("should use the default profile", () => {
+      expect(getProfileLayers(loaded).profile).toBe("dev");
+    });
+
+    it("should reject unknown profiles", () => {
+      expect(() => getProfileLayers(loaded, "prod")).toThrow(
+        "Unknown profile: prod (available: dev, docker)"
+      );
+    });
+  });
+
+  describe("mergeSettings", () => {
+    it("should merge nested options and track their sources", () => {
+      const { options, sources } = mergeSettings([
+        {
+          source: "default",
+          options: { stateFile: "state.json", catchUp: { mode: "none" } },
+        },
+        {
+          source: "config",
+          options: {
+            baseUrl: "http://localhost:3000",
+            retry: { maxAttempts: 3, baseDelay: 500 },
+          },
+        },
+        {
+          source: "command line",
+          options: {
+            baseUrl: undefined,
+            retry: { maxAttempts: 5, baseDelay: undefined },
+            alerts: { webhookUrl: undefined },
+          },
+        },
+      ]);
+
+      expect(options).toEqual({
+        stateFile: "state.json",
+        catchUp: { mode: "none" },
+        baseUrl: "http://localhost:3000",
+        retry: { maxAttempts: 5, baseDelay: 500 },
+      });
+      expect(sources).toEqual({
+        stateFile: "default",
+        "catchUp.mode": "default",
+        baseUrl: "config",
+        "retry.maxAttempts": "command line",
+        "retry.baseDelay": "config",
+      });
+    });
+
+    it("should replace values that are not objects", () => {
+      const { options, sources } = mergeSettings([
+        { source: "config", options: { waitForServer: true } },
+        { source: "profile", options: { waitForServer: { timeout: 5000 } } },
+        { source: "config", options: { retry: { retryOn: [500] } } },
+        { source: "profile", options: { retry: { retryOn: [503] } } },
+      ]);
+
+      expect(options).toEqual({
+        waitForServer: { timeout: 5000 },
+        retry: { retryOn: [503] },
+      });
+      expect(sources).toEqual({
+        "waitForServer.timeout": "profile",
+        "retry.retryOn": "profile",
+      });
+    });
+  });
+
+  describe("flattenSettings", () => {
+    it("should key nested settings like the sources", () => {
+      expect(
+        flattenSettings({
+          baseUrl: "http://localhost:3000",
+          retry: { maxAttempts: 3 },
+        })
+      ).toEqual({
+        baseUrl: "http://localhost:3000",
+        "retry.maxAttempts": 3,
+      });
+    });
+  });
+});
@@ -1,4 +1,6 @@
 import { CronRunner } from "../src/runner";
+import * as schedule from "../src/schedule";
+import { CronExecutionResult } from "../src/types";
 
 // Mock node-cron
 jest.mock("node-cron", () => ({
@@ -16,6 +18,10 @@ jest.mock("node-cron", () => ({
 jest.mock("fs", () => ({
   existsSync: jest.fn(),
   readFileSync: jest.fn(),
+  watchFile: jest.fn(),
+  unwatchFile: jest.fn(),
+  mkdirSync: jest.fn(),
+  writeFileSync: jest.fn(),
 }));
 
 const mockCron = require("node-cron");
@@ -72,6 +78,15 @@ describe("CronRunner", () => {
       }).toThrow("baseUrl must be a valid URL");
     });
 
+    it("should throw error if timezone is invalid", () => {
+      expect(() => {
+        new CronRunner({
+          baseUrl: mockBaseUrl,
+          timezone: "Mars/Olympus_Mons",
+        });
+      }).toThrow("Invalid timezone: Mars/Olympus_Mons");
+    });
+
     it("should use default configPath if not provided", () => {
       const runner = new CronRunner({
         baseUrl: mockBaseUrl,
@@ -139,6 +154,33 @@ describe("CronRunner", () => {
       expect(mockCron.validate).toHaveBeenCalledTimes(3);
     });
 
+    it("should schedule jobs in UTC by default", async () => {
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+
+      await runner.start();
+
+      expect(mockCron.schedule).toHaveBeenCalledWith(
+        "0 8 * * *",
+        expect.any(Function),
+        { timezone: "UTC" }
+      );
+    });
+
+    it("should schedule jobs in the configured timezone", async () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        timezone: "Europe/Paris",
+      });
+
+      await runner.start();
+
+      expect(mockCron.schedule).toHaveBeenCalledWith(
+        "0 8 * * *",
+        expect.any(Function),
+        { timezone: "Europe/Paris" }
+      );
+    });
+
     it("should filter jobs based on filter pattern", async () => {
       const runner = new CronRunner({
         baseUrl: mockBaseUrl,
@@ -170,6 +212,21 @@ describe("CronRunner", () => {
 
       await expect(runner.start()).rejects.toThrow("Invalid cron schedule");
     });
+
+    it("should reject schedules the next run parser cannot read", async () => {
+      // node-cron accepts ranges that wrap around, getNextRuns does not
+      fs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          crons: [{ path: "/api/crons/test1", schedule: "0 8 * * 6-1" }],
+        })
+      );
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+
+      await expect(runner.start()).rejects.toThrow(
+        "Invalid cron schedule for /api/crons/test1: 0 8 * * 6-1"
+      );
+      expect(mockCron.schedule).not.toHaveBeenCalled();
+    });
   });
 
   describe("stop", () => {
@@ -188,6 +245,263 @@ describe("CronRunner", () => {
     });
   });
 
+  describe("runtime job control", () => {
+    let tasks: Map<string, { stop: jest.Mock; start: jest.Mock }>;
+
+    beforeEach(() => {
+      tasks = new Map();
+      mockCron.schedule.mockImplementation((schedule: string) => {
+        const task = { stop: jest.fn(), start: jest.fn() };
+        tasks.set(schedule, task);
+        return task;
+      });
+    });
+
+    it("should stop and restart the job's task", async () => {
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+      const paused = jest.fn();
+      const resumed = jest.fn();
+      runner.on("job:paused", paused);
+      runner.on("job:resumed", resumed);
+      await runner.start();
+
+      runner.pauseJob("/api/crons/test1");
+      expect(tasks.get("* * * * *")!.stop).toHaveBeenCalledTimes(1);
+      expect(runner.isPaused("/api/crons/test1")).toBe(true);
+      expect(paused).toHaveBeenCalledWith(mockConfig.crons[0]);
+
+      runner.pauseJob("/api/crons/test1");
+      expect(paused).toHaveBeenCalledTimes(1);
+
+      runner.resumeJob("/api/crons/test1");
+      expect(tasks.get("* * * * *")!.start).toHaveBeenCalledTimes(1);
+      expect(runner.isPaused("/api/crons/test1")).toBe(false);
+      expect(resumed).toHaveBeenCalledWith(mockConfig.crons[0]);
+    });
+
+    it("should throw for jobs that are not scheduled", async () => {
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+      await runner.start();
+
+      expect(() => runner.pauseJob("/api/crons/missing")).toThrow(
+        "Cron job not scheduled: /api/crons/missing"
+      );
+      expect(() => runner.resumeJob("/api/crons/missing")).toThrow(
+        "Cron job not scheduled: /api/crons/missing"
+      );
+    });
+
+    it("should trigger a scheduled job", async () => {
+      const mockFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => "OK",
+      });
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+      await runner.start();
+
+      const result = await runner.triggerJob("/api/crons/test2");
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${mockBaseUrl}/api/crons/test2`,
+        expect.any(Object)
+      );
+      await expect(runner.triggerJob("/api/crons/missing")).rejects.toThrow(
+        "Cron job not scheduled: /api/crons/missing"
+      );
+    });
+
+    it("should report the state of a job", async () => {
+      const mockFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => "OK",
+      });
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+      await runner.start();
+
+      const initial = runner.getJobState("/api/crons/test2");
+      expect(initial).toMatchObject({
+        path: "/api/crons/test2",
+        schedule: "0 8 * * *",
+        paused: false,
+        running: false,
+      });
+      expect(initial.nextRun!.getUTCHours()).toBe(8);
+      expect(initial.lastResult).toBeUndefined();
+
+      const running = runner.triggerJob("/api/crons/test2");
+      expect(runner.getJobState("/api/crons/test2").running).toBe(true);
+      const result = await running;
+
+      runner.pauseJob("/api/crons/test2");
+      const state = runner.getJobState("/api/crons/test2");
+      expect(state.running).toBe(false);
+      expect(state.paused).toBe(true);
+      expect(state.nextRun).toBeUndefined();
+      expect(state.lastResult).toEqual(result);
+      expect(runner.getJobStates().map((job) => job.path)).toEqual(
+        mockConfig.crons.map((job) => job.path)
+      );
+    });
+
+    it("should report a state without next run when it cannot be computed", async () => {
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+      await runner.start();
+      const spy = jest
+        .spyOn(schedule, "getNextRuns")
+        .mockImplementation(() => {
+          throw new Error("Invalid day of week range: 6-1");
+        });
+
+      try {
+        expect(runner.getJobState("/api/crons/test2")).toMatchObject({
+          path: "/api/crons/test2",
+          nextRun: undefined,
+        });
+        expect(runner.getJobStates()).toHaveLength(3);
+      } finally {
+        spy.mockRestore();
+        runner.stop();
+      }
+    });
+
+    it("should keep a job paused when it is rescheduled", async () => {
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+      await runner.start();
+      runner.pauseJob("/api/crons/test2");
+
+      fs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          crons: [
+            mockConfig.crons[0],
+            { path: "/api/crons/test2", schedule: "0 9 * * *" },
+            mockConfig.crons[2],
+          ],
+        })
+      );
+      runner.reloadConfig();
+
+      expect(tasks.get("0 9 * * *")!.stop).toHaveBeenCalled();
+      expect(runner.isPaused("/api/crons/test2")).toBe(true);
+    });
+  });
+
+  describe("reloadConfig", () => {
+    it("should watch the config file while running", async () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        configPath: mockConfigPath,
+      });
+
+      await runner.start();
+      expect(fs.watchFile).toHaveBeenCalledWith(
+        mockConfigPath,
+        expect.any(Object),
+        expect.any(Function)
+      );
+
+      runner.stop();
+      expect(fs.unwatchFile).toHaveBeenCalledWith(mockConfigPath);
+    });
+
+    it("should not watch the config file when watchConfig is false", async () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        watchConfig: false,
+      });
+
+      await runner.start();
+
+      expect(fs.watchFile).not.toHaveBeenCalled();
+    });
+
+    it("should only touch added, removed and rescheduled jobs", async () => {
+      const stops = new Map<string, jest.Mock>();
+      mockCron.schedule.mockImplementation((schedule: string) => {
+        const stop = jest.fn();
+        stops.set(schedule, stop);
+        return { stop };
+      });
+
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+      await runner.start();
+      mockCron.schedule.mockClear();
+
+      fs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          crons: [
+            { path: "/api/crons/test1", schedule: "* * * * *" },
+            { path: "/api/crons/test2", schedule: "0 9 * * *" },
+            { path: "/api/crons/test4", schedule: "0 0 * * *" },
+          ],
+        })
+      );
+
+      const diff = runner.reloadConfig();
+
+      expect(diff.added.map((job) => job.path)).toEqual(["/api/crons/test4"]);
+      expect(diff.removed.map((job) => job.path)).toEqual([
+        "/api/crons/notifications/test3",
+      ]);
+      expect(diff.rescheduled).toEqual([
+        {
+          job: { path: "/api/crons/test2", schedule: "0 9 * * *" },
+          previousSchedule: "0 8 * * *",
+        },
+      ]);
+      expect(mockCron.schedule).toHaveBeenCalledTimes(2);
+      expect(stops.get("* * * * *")).not.toHaveBeenCalled();
+      expect(stops.get("0 8 * * *")).toHaveBeenCalled();
+      expect(stops.get("*/5 * * * *")).toHaveBeenCalled();
+      expect(runner.getStats().totalJobs).toBe(3);
+    });
+
+    it("should keep the previous schedule when the new config is invalid", async () => {
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+      await runner.start();
+      mockCron.schedule.mockClear();
+
+      fs.readFileSync.mockReturnValue("{ invalid json");
+      expect(() => runner.reloadConfig()).toThrow("Invalid JSON");
+
+      fs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          crons: [{ path: "/api/crons/test1", schedule: "bad" }],
+        })
+      );
+      expect(() => runner.reloadConfig()).toThrow("Invalid cron schedule");
+
+      expect(mockCron.schedule).not.toHaveBeenCalled();
+      expect(runner.getStats().totalJobs).toBe(3);
+    });
+
+    it("should report reload errors from the watcher instead of throwing", async () => {
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+      await runner.start();
+
+      const onChange = fs.watchFile.mock.calls[0][2];
+      fs.readFileSync.mockReturnValue("{ invalid json");
+
+      expect(() =>
+        onChange({ mtimeMs: 2 }, { mtimeMs: 1 })
+      ).not.toThrow();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("keeping previous schedule")
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
   describe("executeAll", () => {
     it("should execute all cron jobs once", async () => {
       const mockFetch = jest.fn().mockResolvedValue({
@@ -326,143 +640,1459 @@ describe("CronRunner", () => {
     });
   });
 
-  describe("getStats", () => {
-    it("should return initial stats", () => {
-      const runner = new CronRunner({
+  describe("catch-up", () => {
+    const stateFile = "/tmp/nextjs-crons-state.json";
+    const day = 24 * 60 * 60 * 1000;
+
+    const useLastFires = (lastFires: Record<string, string>) => {
+      fs.readFileSync.mockImplementation((file: string) =>
+        JSON.stringify(file === stateFile ? { lastFires } : mockConfig)
+      );
+    };
+
+    // Resolves once the missed fires have run in the background
+    const startAndCatchUp = async (runner: CronRunner) => {
+      const finished = new Promise((resolve) =>
+        runner.once("catchup:finished", resolve)
+      );
+      await runner.start();
+      return finished;
+    };
+
+    const createRunner = (catchUp: any, mockFetch: jest.Mock) =>
+      new CronRunner({
         baseUrl: mockBaseUrl,
+        filter: "/api/crons/test2",
+        watchConfig: false,
+        stateFile,
+        catchUp,
+        fetch: mockFetch as any,
       });
 
-      const stats = runner.getStats();
+    it("should require a state file", () => {
+      expect(() => {
+        new CronRunner({ baseUrl: mockBaseUrl, catchUp: { mode: "all" } });
+      }).toThrow("catchUp requires stateFile");
+    });
 
-      expect(stats).toEqual({
-        totalJobs: 0,
-        successfulExecutions: 0,
-        failedExecutions: 0,
+    it("should run every missed fire with the all mode", async () => {
+      useLastFires({
+        "/api/crons/test2": new Date(Date.now() - 3 * day).toISOString(),
       });
-    });
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+      const runner = createRunner({ mode: "all" }, mockFetch);
+      const results: any[] = [];
+      runner.on("job:success", (_job, result) => results.push(result));
 
-    it("should update stats after execution", async () => {
-      const mockFetch = jest
-        .fn()
-        .mockResolvedValueOnce({ ok: true, status: 200 })
-        .mockResolvedValueOnce({ ok: false, status: 500 })
-        .mockResolvedValueOnce({ ok: true, status: 200 });
+      await startAndCatchUp(runner);
 
-      const runner = new CronRunner({
-        baseUrl: mockBaseUrl,
-        fetch: mockFetch as any,
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(results.every((result) => result.catchUp)).toBe(true);
+      expect(results.every((r) => r.utcTime.endsWith("T08:00:00.000Z"))).toBe(
+        true
+      );
+      expect(fs.writeFileSync).toHaveBeenLastCalledWith(
+        stateFile,
+        expect.stringContaining(results[2].utcTime)
+      );
+    });
+
+    it("should run only the latest missed fire with the latest mode", async () => {
+      useLastFires({
+        "/api/crons/test2": new Date(Date.now() - 3 * day).toISOString(),
       });
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
 
-      await runner.executeAll();
-      const stats = runner.getStats();
+      await startAndCatchUp(createRunner({ mode: "latest" }, mockFetch));
 
-      expect(stats.totalJobs).toBe(0); // Not set in executeAll
-      expect(stats.successfulExecutions).toBe(2);
-      expect(stats.failedExecutions).toBe(1);
-      expect(stats.lastExecution).toBeInstanceOf(Date);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
-  });
 
-  describe("listJobs", () => {
-    it("should list all configured jobs", () => {
-      const runner = new CronRunner({
-        baseUrl: mockBaseUrl,
+    it("should ignore missed fires older than maxAge", async () => {
+      useLastFires({
+        "/api/crons/test2": new Date(Date.now() - 3 * day).toISOString(),
       });
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
 
-      const jobs = runner.listJobs();
+      await startAndCatchUp(
+        createRunner({ mode: "all", maxAge: day }, mockFetch)
+      );
 
-      expect(jobs).toHaveLength(3);
-      expect(jobs[0]).toEqual({
-        path: "/api/crons/test1",
-        schedule: "* * * * *",
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should run at most maxFires missed fires, the most recent ones", async () => {
+      jest.spyOn(console, "warn").mockImplementation();
+      useLastFires({
+        "/api/crons/test2": new Date(Date.now() - 5 * day).toISOString(),
       });
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+      const results = (await startAndCatchUp(
+        createRunner({ mode: "all", maxFires: 2 }, mockFetch)
+      )) as CronExecutionResult[];
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(new Date(results[1].utcTime).getTime()).toBeGreaterThan(
+        Date.now() - day
+      );
+      (console.warn as jest.Mock).mockRestore();
     });
 
-    it("should list filtered jobs", () => {
-      const runner = new CronRunner({
-        baseUrl: mockBaseUrl,
-        filter: "/api/crons/notifications/*",
+    it("should resolve start() before the missed fires have run", async () => {
+      useLastFires({
+        "/api/crons/test2": new Date(Date.now() - 2 * day).toISOString(),
       });
+      let respond: (response: unknown) => void = () => {};
+      const mockFetch = jest
+        .fn()
+        .mockImplementationOnce(
+          () => new Promise((resolve) => (respond = resolve))
+        )
+        .mockResolvedValue({ ok: true, status: 200 });
+      const runner = createRunner({ mode: "all" }, mockFetch);
+      const finished = jest.fn();
+      runner.on("catchup:finished", finished);
 
-      const jobs = runner.listJobs();
+      await runner.start();
 
-      expect(jobs).toHaveLength(1);
-      expect(jobs[0].path).toBe("/api/crons/notifications/test3");
+      expect(mockCron.schedule).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(finished).not.toHaveBeenCalled();
+
+      const catchUp = new Promise((resolve) =>
+        runner.once("catchup:finished", resolve)
+      );
+      respond({ ok: true, status: 200 });
+      await catchUp;
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      runner.stop();
     });
-  });
 
-  describe("verbose logging", () => {
-    it("should log when verbose is enabled", async () => {
-      const consoleSpy = jest.spyOn(console, "log").mockImplementation();
+    it("should record the real fire time, not node-cron's", async () => {
+      jest.useFakeTimers({ now: new Date("2025-01-05T08:00:00.000Z") });
+      useLastFires({
+        "/api/crons/test2": "2025-01-04T08:00:00.000Z",
+      });
       const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
-
       const runner = new CronRunner({
         baseUrl: mockBaseUrl,
-        verbose: 1,
+        filter: "/api/crons/test2",
+        timezone: "Asia/Tokyo",
+        watchConfig: false,
+        stateFile,
+        catchUp: { mode: "all" },
         fetch: mockFetch as any,
       });
 
-      await runner.executeAll();
+      try {
+        await startAndCatchUp(runner);
+        mockFetch.mockClear();
+        // node-cron parses the Tokyo wall-clock time as machine-local time,
+        // which is 9 hours in the future on a machine in UTC
+        const onTick = mockCron.schedule.mock.calls[0][1];
+        await onTick(new Date("2025-01-05T17:00:00.000Z"));
+      } finally {
+        runner.stop();
+        jest.useRealTimers();
+      }
 
-      expect(consoleSpy).toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const [, content] = fs.writeFileSync.mock.calls.at(-1);
+      expect(JSON.parse(content).lastFires).toEqual({
+        "/api/crons/test2": "2025-01-05T08:00:00.000Z",
+      });
+    });
 
-      consoleSpy.mockRestore();
+    it("should record the start time for jobs that never fired", async () => {
+      useLastFires({});
+      const mockFetch = jest.fn();
+
+      await createRunner({ mode: "all" }, mockFetch).start();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        stateFile,
+        expect.stringContaining("/api/crons/test2")
+      );
     });
+  });
 
-    it("should not log when verbose is disabled", async () => {
-      const consoleSpy = jest.spyOn(console, "log").mockImplementation();
-      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+  describe("overlap policy", () => {
+    const deferredFetch = () => {
+      const resolvers: Array<(value: unknown) => void> = [];
+      const mockFetch = jest.fn(
+        () => new Promise((resolve) => resolvers.push(resolve))
+      );
+      const resolveNext = () => resolvers.shift()!({ ok: true, status: 200 });
+      return { mockFetch, resolveNext };
+    };
 
+    it("should allow overlapping runs by default", async () => {
+      const { mockFetch, resolveNext } = deferredFetch();
       const runner = new CronRunner({
         baseUrl: mockBaseUrl,
-        verbose: 0,
         fetch: mockFetch as any,
       });
 
-      await runner.executeAll();
-
-      expect(consoleSpy).not.toHaveBeenCalled();
+      const first = runner.executeOne("/api/crons/test1");
+      const second = runner.executeOne("/api/crons/test1");
+      await Promise.resolve();
 
-      consoleSpy.mockRestore();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      resolveNext();
+      resolveNext();
+      expect((await first).outcome).toBe("success");
+      expect((await second).outcome).toBe("success");
     });
 
-    it("should always log errors", async () => {
+    it("should skip fires while a previous run is in flight", async () => {
+      const { mockFetch, resolveNext } = deferredFetch();
       const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
-      const mockFetch = jest.fn().mockResolvedValue({ ok: false, status: 500 });
-
       const runner = new CronRunner({
         baseUrl: mockBaseUrl,
-        verbose: 0,
+        overlap: "skip",
         fetch: mockFetch as any,
       });
 
-      await runner.executeAll();
+      const first = runner.executeOne("/api/crons/test1");
+      const second = await runner.executeOne("/api/crons/test1");
 
-      expect(consoleErrorSpy).toHaveBeenCalled();
+      expect(second.outcome).toBe("skipped");
+      expect(second.success).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      resolveNext();
+      await first;
+
+      const stats = runner.getStats();
+      expect(stats.skippedExecutions).toBe(1);
+      expect(stats.failedExecutions).toBe(0);
 
       consoleErrorSpy.mockRestore();
     });
-  });
-
-  describe("execution results", () => {
-    it("should include duration in results", async () => {
-      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
 
+    it("should queue fires until the previous run has finished", async () => {
+      const { mockFetch, resolveNext } = deferredFetch();
       const runner = new CronRunner({
         baseUrl: mockBaseUrl,
+        jobs: { "/api/crons/test1": { overlap: "queue" } },
         fetch: mockFetch as any,
       });
 
-      const results = await runner.executeAll();
+      const first = runner.executeOne("/api/crons/test1");
+      const second = runner.executeOne("/api/crons/test1");
+      await new Promise((resolve) => setImmediate(resolve));
 
-      expect(results[0].duration).toBeGreaterThanOrEqual(0);
-      expect(typeof results[0].duration).toBe("number");
-    });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
 
-    it("should include timestamp in results", async () => {
-      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+      resolveNext();
+      await first;
+      await new Promise((resolve) => setImmediate(resolve));
 
-      const runner = new CronRunner({
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      resolveNext();
+
+      const result = await second;
+      expect(result.outcome).toBe("success");
+      expect(result.queuedFor).toBeGreaterThanOrEqual(0);
+      expect(runner.getStats().queuedExecutions).toBe(1);
+    });
+
+    it("should let per-job settings override the runner policy", async () => {
+      const { mockFetch, resolveNext } = deferredFetch();
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        overlap: "skip",
+        jobs: { "/api/crons/test1": { overlap: "allow" } },
+        fetch: mockFetch as any,
+      });
+
+      const first = runner.executeOne("/api/crons/test1");
+      const second = runner.executeOne("/api/crons/test1");
+      await Promise.resolve();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      resolveNext();
+      resolveNext();
+      await Promise.all([first, second]);
+    });
+  });
+
+  describe("retries", () => {
+    const retry = { maxAttempts: 3, baseDelay: 0, jitter: 0 };
+
+    it("should make a single attempt by default", async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ ok: false, status: 500 });
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+
+      const result = await runner.executeOne("/api/crons/test1");
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.attempts).toEqual([
+        {
+          attempt: 1,
+          statusCode: 500,
+          error: undefined,
+          duration: expect.any(Number),
+        },
+      ]);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should retry retryable statuses and count only the final outcome", async () => {
+      const mockFetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 500 })
+        .mockRejectedValueOnce(new Error("ECONNREFUSED"))
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        retry,
+        fetch: mockFetch as any,
+      });
+
+      const result = await runner.executeOne("/api/crons/test1");
+
+      expect(result.success).toBe(true);
+      expect(result.statusCode).toBe(200);
+      expect(result.attempts.map((a) => a.statusCode ?? a.error)).toEqual([
+        500,
+        "ECONNREFUSED",
+        200,
+      ]);
+
+      const stats = runner.getStats();
+      expect(stats.successfulExecutions).toBe(1);
+      expect(stats.failedExecutions).toBe(0);
+    });
+
+    it("should not retry statuses outside retryOn", async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ ok: false, status: 404 });
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        retry,
+        fetch: mockFetch as any,
+      });
+
+      const result = await runner.executeOne("/api/crons/test1");
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.outcome).toBe("failure");
+      expect(runner.getStats().failedExecutions).toBe(1);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should give up after maxAttempts", async () => {
+      const mockFetch = jest.fn().mockRejectedValue(new Error("ECONNREFUSED"));
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        retry,
+        fetch: mockFetch as any,
+      });
+
+      const result = await runner.executeOne("/api/crons/test1");
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(result.outcome).toBe("error");
+      expect(result.attempts).toHaveLength(3);
+      expect(runner.getStats().failedExecutions).toBe(1);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should throw error if maxAttempts is invalid", () => {
+      expect(() => {
+        new CronRunner({ baseUrl: mockBaseUrl, retry: { maxAttempts: 0 } });
+      }).toThrow("retry.maxAttempts must be a positive integer");
+    });
+  });
+
+  describe("timeouts", () => {
+    const hangingFetch = () =>
+      jest.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new Error("This operation was aborted"))
+            );
+          })
+      );
+
+    it("should abort requests after the global timeout", async () => {
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+      const mockFetch = hangingFetch();
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        timeout: 20,
+        retry: { maxAttempts: 3, baseDelay: 0 },
+        fetch: mockFetch as any,
+      });
+
+      const result = await runner.executeOne("/api/crons/test1");
+
+      expect(result.outcome).toBe("timeout");
+      expect(result.success).toBe(false);
+      expect(result.timeout).toBe(20);
+      expect(result.error).toBe("Timed out after 20ms");
+      expect(result.attempts).toHaveLength(1);
+      expect(result.attempts[0].timedOut).toBe(true);
+      expect(mockFetch.mock.calls[0][1].signal?.aborted).toBe(true);
+      expect(runner.getStats().failedExecutions).toBe(1);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should keep the time limit while reading the response body", async () => {
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+      const mockFetch = jest.fn(async (_url: string, init: RequestInit) => {
+        const body = new Promise<string>((_, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(new Error("This operation was aborted"))
+          );
+        });
+        return {
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          clone: () => ({ text: () => body }),
+        };
+      });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        timeout: 20,
+        captureResponse: true,
+        fetch: mockFetch as any,
+      });
+
+      const result = await runner.executeOne("/api/crons/test1");
+
+      expect(result.outcome).toBe("timeout");
+      expect(result.error).toBe("Timed out after 20ms");
+      expect(mockFetch.mock.calls[0][1].signal?.aborted).toBe(true);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should use maxDuration from the functions section of vercel.json", async () => {
+      fs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          ...mockConfig,
+          functions: { "app/api/crons/test1/route.ts": { maxDuration: 30 } },
+        })
+      );
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        timeout: 5000,
+        fetch: mockFetch as any,
+      });
+
+      const results = await runner.executeAll();
+
+      expect(results[0].timeout).toBe(30000);
+      expect(results[1].timeout).toBe(5000);
+    });
+
+    it("should not set a time limit by default", async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+
+      const result = await runner.executeOne("/api/crons/test1");
+
+      expect(result.timeout).toBeUndefined();
+    });
+  });
+
+  describe("job settings", () => {
+    const okFetch = () =>
+      jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+    const useLocalConfig = (jobs: Record<string, unknown>) => {
+      fs.readFileSync.mockImplementation((file: string) =>
+        JSON.stringify(
+          file === "/tmp/test-vercel.local.json" ? { jobs } : mockConfig
+        )
+      );
+    };
+
+    it("should send the job's method, headers, body and query", async () => {
+      const mockFetch = okFetch();
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        cronSecret: "test-secret",
+        vercelEmulation: false,
+        jobs: {
+          "/api/crons/test2": {
+            method: "post",
+            headers: { "content-type": "text/plain", "X-Source": "local" },
+            body: { full: true },
+            query: { limit: 10, dry: false },
+          },
+        },
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeOne("/api/crons/test2");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://localhost:3000/api/crons/test2?limit=10&dry=false",
+        expect.objectContaining({
+          method: "POST",
+          headers: {
+            Authorization: "Bearer test-secret",
+            "content-type": "text/plain",
+            "X-Source": "local",
+          },
+          body: '{"full":true}',
+        })
+      );
+    });
+
+    it("should read settings from the local config file", async () => {
+      useLocalConfig({
+        "/api/crons/test1": { enabled: false, description: "Paused" },
+        "/api/crons/test2": { method: "DELETE", timeout: 50 },
+      });
+      const mockFetch = okFetch();
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        configPath: mockConfigPath,
+        jobs: { "/api/crons/test2": { method: "PUT" } },
+        fetch: mockFetch as any,
+      });
+
+      const results = await runner.executeAll();
+
+      expect(results.map((result) => result.path)).toEqual([
+        "/api/crons/test2",
+        "/api/crons/notifications/test3",
+      ]);
+      expect(results[0].timeout).toBe(50);
+      expect(mockFetch.mock.calls[0][1].method).toBe("PUT");
+      expect(runner.listJobs()[0]).toEqual({
+        path: "/api/crons/test1",
+        schedule: "* * * * *",
+        enabled: false,
+        description: "Paused",
+      });
+    });
+
+    it("should not schedule disabled jobs", async () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        watchConfig: false,
+        jobs: { "/api/crons/test1": { enabled: false } },
+      });
+
+      await runner.start();
+
+      expect(mockCron.schedule).toHaveBeenCalledTimes(2);
+      expect(
+        runner.simulate(
+          new Date("2025-01-05T08:00:00Z"),
+          new Date("2025-01-05T08:00:00Z")
+        )
+      ).toEqual([
+        {
+          path: "/api/crons/notifications/test3",
+          schedule: "*/5 * * * *",
+          time: new Date("2025-01-05T08:00:00Z"),
+        },
+        {
+          path: "/api/crons/test2",
+          schedule: "0 8 * * *",
+          time: new Date("2025-01-05T08:00:00Z"),
+        },
+      ]);
+      runner.stop();
+    });
+
+    it("should reject invalid settings", async () => {
+      expect(
+        () =>
+          new CronRunner({
+            baseUrl: mockBaseUrl,
+            jobs: { "/api/crons/test1": { timeout: -1 } },
+          })
+      ).toThrow(
+        "Invalid settings for /api/crons/test1: timeout must be a positive number"
+      );
+      expect(() =>
+        new CronRunner({
+          baseUrl: mockBaseUrl,
+          jobs: { "/api/crons/test1": { body: "x" } },
+        }).listJobs()
+      ).toThrow(
+        "Invalid settings for /api/crons/test1: a body cannot be sent with GET"
+      );
+
+      useLocalConfig({ "/api/crons/test1": { methd: "POST" } });
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        configPath: mockConfigPath,
+      });
+      expect(() => runner.listJobs()).toThrow(
+        'Invalid settings for /api/crons/test1 in /tmp/test-vercel.local.json: unknown setting "methd"'
+      );
+    });
+
+    it("should take a local body for a method set in the options", async () => {
+      useLocalConfig({ "/api/crons/test1": { body: { full: true } } });
+      const mockFetch = okFetch();
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        configPath: mockConfigPath,
+        jobs: { "/api/crons/test1": { method: "POST" } },
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeOne("/api/crons/test1");
+
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({
+        method: "POST",
+        body: '{"full":true}',
+      });
+    });
+
+    it("should check the merged settings of each job", () => {
+      useLocalConfig({ "/api/crons/test1": { method: "POST", body: "x" } });
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        configPath: mockConfigPath,
+        jobs: { "/api/crons/test1": { method: "GET" } },
+      });
+
+      expect(() => runner.listJobs()).toThrow(
+        "Invalid settings for /api/crons/test1: a body cannot be sent with GET"
+      );
+    });
+
+    it("should not apply the overlay of a rejected reload", async () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        configPath: mockConfigPath,
+        watchConfig: false,
+      });
+      await runner.start();
+
+      fs.readFileSync.mockImplementation((file: string) =>
+        JSON.stringify(
+          file === "/tmp/test-vercel.local.json"
+            ? { jobs: { "/api/crons/test2": { enabled: false } } }
+            : { crons: [{ path: "/api/crons/test1", schedule: "bad" }] }
+        )
+      );
+      expect(() => runner.reloadConfig()).toThrow("Invalid cron schedule");
+
+      expect(runner.listJobs()[1]).toEqual({
+        path: "/api/crons/test2",
+        schedule: "0 8 * * *",
+      });
+      runner.stop();
+    });
+  });
+
+  describe("vercel emulation", () => {
+    const okFetch = () =>
+      jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+    it("should send the requests Vercel's cron invoker sends", async () => {
+      const mockFetch = okFetch();
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        cronSecret: "test-secret",
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeOne("/api/crons/test1");
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("http://localhost:3000/api/crons/test1");
+      expect(init).toEqual(
+        expect.objectContaining({
+          method: "GET",
+          body: undefined,
+          redirect: "manual",
+        })
+      );
+      expect(init.headers).toEqual({
+        "user-agent": "vercel-cron/1.0",
+        "x-vercel-id": expect.stringMatching(/^dev1::\d+-[0-9a-f]{12}$/),
+        "x-vercel-deployment-url": "localhost:3000",
+        "x-forwarded-host": "localhost:3000",
+        "x-forwarded-proto": "http",
+        "x-forwarded-for": "127.0.0.1",
+        "x-real-ip": "127.0.0.1",
+        Authorization: "Bearer test-secret",
+      });
+    });
+
+    it("should count redirects as successes without following them", async () => {
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+      const mockFetch = jest
+        .fn()
+        .mockResolvedValue({ ok: false, status: 307 });
+
+      const emulated = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+      const plain = new CronRunner({
+        baseUrl: mockBaseUrl,
+        vercelEmulation: false,
+        fetch: mockFetch as any,
+      });
+
+      expect((await emulated.executeOne("/api/crons/test1")).outcome).toBe(
+        "success"
+      );
+      expect((await plain.executeOne("/api/crons/test1")).outcome).toBe(
+        "failure"
+      );
+      expect(mockFetch.mock.calls[1][1]).toEqual(
+        expect.objectContaining({
+          redirect: "follow",
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should let runner and job headers override emulated ones", async () => {
+      const mockFetch = okFetch();
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        headers: { "User-Agent": "custom/1.0", "X-Source": "runner" },
+        jobs: {
+          "/api/crons/test1": {
+            method: "POST",
+            body: { full: true },
+            headers: { "x-source": "job" },
+          },
+        },
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeOne("/api/crons/test1");
+
+      const { headers } = mockFetch.mock.calls[0][1];
+      expect(headers).toEqual(
+        expect.objectContaining({
+          "User-Agent": "custom/1.0",
+          "x-source": "job",
+          "Content-Type": "application/json",
+        })
+      );
+      expect(headers["user-agent"]).toBeUndefined();
+      expect(headers["X-Source"]).toBeUndefined();
+    });
+
+    it("should reject headers that are not strings", () => {
+      expect(
+        () =>
+          new CronRunner({
+            baseUrl: mockBaseUrl,
+            headers: { "X-Retries": 3 as any },
+          })
+      ).toThrow("headers must map names to strings");
+    });
+  });
+
+  describe("events", () => {
+    it("should emit lifecycle events when starting and stopping", async () => {
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+      const started = jest.fn();
+      const scheduled = jest.fn();
+      const stopped = jest.fn();
+
+      runner.on("started", started);
+      runner.on("job:scheduled", scheduled);
+      runner.on("stopped", stopped);
+
+      await runner.start();
+      runner.stop();
+
+      expect(scheduled).toHaveBeenCalledTimes(3);
+      expect(scheduled).toHaveBeenCalledWith(mockConfig.crons[0]);
+      expect(started).toHaveBeenCalledWith(mockConfig.crons);
+      expect(stopped).toHaveBeenCalledTimes(1);
+    });
+
+    it("should emit job events with the execution result", async () => {
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+      const mockFetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 503 })
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+        .mockResolvedValueOnce({ ok: false, status: 404 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        retry: { maxAttempts: 2, baseDelay: 0 },
+        fetch: mockFetch as any,
+      });
+      const start = jest.fn();
+      const retry = jest.fn();
+      const success = jest.fn();
+      const failure = jest.fn();
+
+      runner.on("job:start", start);
+      runner.on("job:retry", retry);
+      runner.on("job:success", success);
+      runner.on("job:failure", failure);
+
+      const [first, second] = await runner.executeAll();
+
+      expect(start).toHaveBeenCalledTimes(3);
+      expect(retry).toHaveBeenCalledWith(
+        mockConfig.crons[0],
+        expect.objectContaining({ attempt: 1, statusCode: 503 }),
+        expect.any(Number)
+      );
+      expect(success).toHaveBeenCalledWith(mockConfig.crons[0], first);
+      expect(failure).toHaveBeenCalledWith(mockConfig.crons[1], second);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should emit config events when the config file changes", async () => {
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+      const reloaded = jest.fn();
+      const configError = jest.fn();
+      runner.on("config:reloaded", reloaded);
+      runner.on("config:error", configError);
+
+      await runner.start();
+      const onChange = fs.watchFile.mock.calls[0][2];
+
+      onChange({ mtimeMs: 2 }, { mtimeMs: 1 });
+      expect(reloaded).toHaveBeenCalledWith({
+        added: [],
+        removed: [],
+        rescheduled: [],
+      });
+
+      fs.readFileSync.mockReturnValue("{ invalid json");
+      onChange({ mtimeMs: 3 }, { mtimeMs: 2 });
+      expect(configError).toHaveBeenCalledWith(expect.any(Error));
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("getHistory", () => {
+    it("should record every execution result, newest first", async () => {
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+      const mockFetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+        .mockResolvedValueOnce({ ok: false, status: 500 })
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+
+      const results = await runner.executeAll();
+
+      expect(runner.getHistory()).toEqual([...results].reverse());
+      expect(runner.getHistory({ status: "failure" })).toEqual([results[1]]);
+      expect(runner.getHistory({ path: "/api/crons/test1" })).toEqual([
+        results[0],
+      ]);
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("getStats", () => {
+    it("should return initial stats", () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+      });
+
+      const stats = runner.getStats();
+
+      expect(stats).toEqual({
+        totalJobs: 0,
+        successfulExecutions: 0,
+        failedExecutions: 0,
+        skippedExecutions: 0,
+        queuedExecutions: 0,
+        jobs: {},
+      });
+    });
+
+    it("should update stats after execution", async () => {
+      const mockFetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+        .mockResolvedValueOnce({ ok: false, status: 500 })
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeAll();
+      const stats = runner.getStats();
+
+      expect(stats.totalJobs).toBe(0); // Not set in executeAll
+      expect(stats.successfulExecutions).toBe(2);
+      expect(stats.failedExecutions).toBe(1);
+      expect(stats.lastExecution).toBeInstanceOf(Date);
+    });
+
+    it("should break stats down by job path", async () => {
+      const durations = [30, 10, 20, 100];
+      let call = 0;
+      const mockFetch = jest.fn(async () => {
+        const ok = call !== 2 && call !== 3;
+        const duration = durations[call++];
+        jest.setSystemTime(Date.now() + duration);
+        return { ok, status: ok ? 200 : 503 };
+      });
+      jest.useFakeTimers({ now: new Date("2025-01-05T08:00:00.000Z") });
+
+      try {
+        const runner = new CronRunner({
+          baseUrl: mockBaseUrl,
+          fetch: mockFetch as any,
+        });
+
+        for (let i = 0; i < 4; i++) {
+          await runner.executeOne("/api/crons/test1");
+        }
+        const stats = runner.getStats().jobs["/api/crons/test1"];
+
+        expect(stats).toEqual({
+          successfulExecutions: 2,
+          failedExecutions: 2,
+          skippedExecutions: 0,
+          consecutiveFailures: 2,
+          lastStatusCode: 503,
+          lastError: "Status 503",
+          lastSuccess: new Date("2025-01-05T08:00:00.030Z"),
+          lastFailure: new Date("2025-01-05T08:00:00.060Z"),
+          minDuration: 10,
+          avgDuration: 40,
+          p95Duration: 100,
+        });
+        expect(runner.getStats().jobs["/api/crons/test2"]).toBeUndefined();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should reset consecutive failures on success", async () => {
+      const mockFetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 500 })
+        .mockRejectedValueOnce(new Error("ECONNREFUSED"))
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeOne("/api/crons/test1");
+      await runner.executeOne("/api/crons/test1");
+      expect(runner.getStats().jobs["/api/crons/test1"]).toMatchObject({
+        consecutiveFailures: 2,
+        lastError: "ECONNREFUSED",
+      });
+      expect(
+        runner.getStats().jobs["/api/crons/test1"].lastStatusCode
+      ).toBeUndefined();
+
+      await runner.executeOne("/api/crons/test1");
+      expect(runner.getStats().jobs["/api/crons/test1"]).toMatchObject({
+        consecutiveFailures: 0,
+        lastStatusCode: 200,
+        lastError: "ECONNREFUSED",
+      });
+    });
+  });
+
+  describe("getNextRuns", () => {
+    it("should compute the next runs in the configured timezone", () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        timezone: "Europe/Paris",
+      });
+
+      const runs = runner.getNextRuns(
+        "/api/crons/test2",
+        2,
+        new Date("2025-01-05T12:00:00.000Z")
+      );
+
+      expect(runs.map((run) => run.toISOString())).toEqual([
+        "2025-01-06T07:00:00.000Z",
+        "2025-01-07T07:00:00.000Z",
+      ]);
+    });
+
+    it("should throw error if cron job not found", () => {
+      const runner = new CronRunner({ baseUrl: mockBaseUrl });
+
+      expect(() => runner.getNextRuns("/api/crons/non-existent", 1)).toThrow(
+        "Cron job not found"
+      );
+    });
+  });
+
+  describe("simulate", () => {
+    it("should simulate the filtered jobs without sending requests", () => {
+      const mockFetch = jest.fn();
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        filter: "/api/crons/notifications/*",
+        fetch: mockFetch as any,
+      });
+
+      const fires = runner.simulate(
+        new Date("2025-01-05T08:00:00.000Z"),
+        new Date("2025-01-05T08:10:00.000Z")
+      );
+
+      expect(fires.map((fire) => fire.time.toISOString())).toEqual([
+        "2025-01-05T08:00:00.000Z",
+        "2025-01-05T08:05:00.000Z",
+        "2025-01-05T08:10:00.000Z",
+      ]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("checkVercelCompatibility", () => {
+    it("should check every cron in the config file, ignoring the filter", () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        filter: "/api/crons/test2",
+      });
+
+      const issues = runner.checkVercelCompatibility("hobby");
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        "/api/crons/test1",
+        "/api/crons/notifications/test3",
+      ]);
+      expect(runner.checkVercelCompatibility("pro")).toEqual([]);
+    });
+  });
+
+  describe("listJobs", () => {
+    it("should list all configured jobs", () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+      });
+
+      const jobs = runner.listJobs();
+
+      expect(jobs).toHaveLength(3);
+      expect(jobs[0]).toEqual({
+        path: "/api/crons/test1",
+        schedule: "* * * * *",
+      });
+    });
+
+    it("should list filtered jobs", () => {
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        filter: "/api/crons/notifications/*",
+      });
+
+      const jobs = runner.listJobs();
+
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0].path).toBe("/api/crons/notifications/test3");
+    });
+  });
+
+  describe("waitForServer", () => {
+    const refused = () =>
+      Promise.reject(new TypeError("fetch failed: ECONNREFUSED"));
+
+    beforeEach(() => {
+      jest.spyOn(console, "error").mockImplementation();
+    });
+
+    afterEach(() => {
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it("should schedule jobs once the server answers", async () => {
+      const mockFetch = jest
+        .fn()
+        .mockImplementationOnce(refused)
+        .mockImplementationOnce(refused)
+        .mockResolvedValue({ ok: false, status: 404 });
+      const ready = jest.fn();
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        waitForServer: { path: "/api/health", interval: 10 },
+        fetch: mockFetch as any,
+      });
+      runner.on("server:ready", ready);
+      await runner.start();
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://localhost:3000/api/health",
+        expect.objectContaining({ method: "GET" })
+      );
+      expect(ready).toHaveBeenCalledWith("http://localhost:3000/api/health");
+      expect(mockCron.schedule).toHaveBeenCalledTimes(3);
+
+      runner.stop();
+    });
+
+    it("should give up after the timeout", async () => {
+      const mockFetch = jest.fn().mockImplementation(refused);
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        waitForServer: { timeout: 30, interval: 10 },
+        fetch: mockFetch as any,
+      });
+
+      await expect(runner.executeAll()).rejects.toThrow(
+        "Server did not answer at http://localhost:3000/ within 30ms"
+      );
+      expect(mockFetch).not.toHaveBeenCalledWith(
+        expect.stringContaining("/api/crons/"),
+        expect.anything()
+      );
+    });
+
+    it("should skip fires while the server is unavailable", async () => {
+      let serverUp = true;
+      const mockFetch = jest.fn((url: string) => {
+        if (url.endsWith("test1")) {
+          serverUp = false;
+        }
+        return serverUp
+          ? Promise.resolve({ ok: true, status: 200 })
+          : refused();
+      });
+      const down = jest.fn();
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        waitForServer: { interval: 10 },
+        fetch: mockFetch as any,
+      });
+      runner.on("server:down", down);
+
+      const results = await runner.executeAll();
+
+      expect(results.map((result) => result.outcome)).toEqual([
+        "error",
+        "skipped",
+        "skipped",
+      ]);
+      expect(results[1].skipReason).toBe("Server unavailable");
+      expect(runner.getStats()).toMatchObject({
+        failedExecutions: 1,
+        skippedExecutions: 2,
+      });
+      expect(down).toHaveBeenCalledWith("http://localhost:3000/");
+
+      serverUp = true;
+      const result = await runner.executeOne("/api/crons/test2");
+      expect(result.outcome).toBe("success");
+    });
+
+    it("should resume fires once the server answers again", async () => {
+      let serverUp = true;
+      const mockFetch = jest.fn((url: string) => {
+        if (url.endsWith("test1")) {
+          serverUp = false;
+        }
+        return serverUp
+          ? Promise.resolve({ ok: true, status: 200 })
+          : refused();
+      });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        filter: "/api/crons/test1",
+        waitForServer: { interval: 10 },
+        watchConfig: false,
+        fetch: mockFetch as any,
+      });
+      await runner.start();
+
+      try {
+        const onTick = mockCron.schedule.mock.calls[0][1];
+        await onTick();
+        serverUp = true;
+        await new Promise((resolve) => runner.once("server:ready", resolve));
+      } finally {
+        runner.stop();
+      }
+    });
+
+    it("should leave no timer behind after one-off runs", async () => {
+      jest.useFakeTimers();
+      const mockFetch = jest.fn((url: string) =>
+        url.endsWith("test1")
+          ? refused()
+          : Promise.resolve({ ok: true, status: 200 })
+      );
+
+      try {
+        const runner = new CronRunner({
+          baseUrl: mockBaseUrl,
+          waitForServer: { interval: 10 },
+          fetch: mockFetch as any,
+        });
+
+        const results = await runner.executeAll();
+        expect(results[0].outcome).toBe("error");
+        expect(jest.getTimerCount()).toBe(0);
+
+        await runner.executeOne("/api/crons/test1");
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should not mark the server down on timeouts", async () => {
+      const mockFetch = jest.fn((url: string) =>
+        url.endsWith("test1")
+          ? new Promise(() => {})
+          : Promise.resolve({ ok: true, status: 200 })
+      );
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        waitForServer: true,
+        timeout: 20,
+        fetch: mockFetch as any,
+      });
+      const results = await runner.executeAll();
+
+      expect(results.map((result) => result.outcome)).toEqual([
+        "timeout",
+        "success",
+        "success",
+      ]);
+    });
+  });
+
+  describe("alerts", () => {
+    it("should send failure alerts before executeAll resolves", async () => {
+      const webhookUrl = "https://hooks.example.com/alerts";
+      const mockFetch = jest.fn((url: string) =>
+        Promise.resolve(
+          url.endsWith("test2")
+            ? { ok: false, status: 500 }
+            : { ok: true, status: 200 }
+        )
+      );
+      jest.spyOn(console, "error").mockImplementation();
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        alerts: { webhookUrl },
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeAll();
+
+      const alertCalls = mockFetch.mock.calls.filter(
+        ([url]) => url === webhookUrl
+      ) as unknown as [string, RequestInit][];
+      expect(alertCalls).toHaveLength(1);
+      expect(JSON.parse(alertCalls[0][1].body as string)).toMatchObject({
+        type: "failure",
+        path: "/api/crons/test2",
+        consecutiveFailures: 1,
+        result: { statusCode: 500, outcome: "failure" },
+      });
+
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it("should wait for pending alerts at most the given time", async () => {
+      const webhookUrl = "https://hooks.example.com/alerts";
+      let sendAlert: (response: unknown) => void = () => {};
+      const mockFetch = jest.fn((url: string) =>
+        url === webhookUrl
+          ? new Promise((resolve) => {
+              sendAlert = resolve;
+            })
+          : Promise.resolve({ ok: false, status: 500 })
+      );
+      jest.spyOn(console, "error").mockImplementation();
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        filter: "/api/crons/test1",
+        alerts: { webhookUrl },
+        watchConfig: false,
+        fetch: mockFetch as any,
+      });
+      await runner.start();
+      await mockCron.schedule.mock.calls[0][1]();
+      runner.stop();
+
+      await runner.flushAlerts(10);
+      expect(mockFetch).toHaveBeenCalledWith(webhookUrl, expect.anything());
+
+      let flushed = false;
+      const flush = runner.flushAlerts().then(() => (flushed = true));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(flushed).toBe(false);
+
+      sendAlert({ ok: true, status: 200 });
+      await flush;
+      expect(flushed).toBe(true);
+
+      (console.error as jest.Mock).mockRestore();
+    });
+  });
+
+  describe("verbose logging", () => {
+    it("should log when verbose is enabled", async () => {
+      const consoleSpy = jest.spyOn(console, "log").mockImplementation();
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        verbose: 1,
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeAll();
+
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should not log when verbose is disabled", async () => {
+      const consoleSpy = jest.spyOn(console, "log").mockImplementation();
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        verbose: 0,
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeAll();
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should always log errors", async () => {
+      const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+      const mockFetch = jest.fn().mockResolvedValue({ ok: false, status: 500 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        verbose: 0,
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeAll();
+
+      expect(consoleErrorSpy).toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should send structured entries to a custom logger", async () => {
+      const consoleSpy = jest.spyOn(console, "log").mockImplementation();
+      const logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+      };
+      const mockFetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+        .mockResolvedValueOnce({ ok: false, status: 500 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        logger,
+        fetch: mockFetch as any,
+      });
+
+      await runner.executeAll();
+
+      expect(logger.info).toHaveBeenCalledWith(
+        {
+          path: "/api/crons/test1",
+          attempts: 1,
+          statusCode: 200,
+          duration: expect.any(Number),
+        },
+        expect.stringContaining("✓ Success: /api/crons/test1 (200)")
+      );
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "/api/crons/test2", statusCode: 500 }),
+        expect.stringContaining("✗ Failed: /api/crons/test2 (500)")
+      );
+      expect(consoleSpy).not.toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("execution results", () => {
+    it("should include duration in results", async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+
+      const results = await runner.executeAll();
+
+      expect(results[0].duration).toBeGreaterThanOrEqual(0);
+      expect(typeof results[0].duration).toBe("number");
+    });
+
+    it("should include timestamp in results", async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
         baseUrl: mockBaseUrl,
         fetch: mockFetch as any,
       });
@@ -472,6 +2102,36 @@ describe("CronRunner", () => {
       expect(results[0].timestamp).toBeInstanceOf(Date);
     });
 
+    it("should capture the response body when captureResponse is set", async () => {
+      const response = new Response('{"sent":3}', { status: 200 });
+      const mockFetch = jest.fn().mockResolvedValue(response);
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        captureResponse: true,
+        fetch: mockFetch as any,
+      });
+
+      const result = await runner.executeOne("/api/crons/test1");
+
+      expect(result.responseBody).toBe('{"sent":3}');
+    });
+
+    it("should not capture the response body by default", async () => {
+      const mockFetch = jest
+        .fn()
+        .mockResolvedValue(new Response("OK", { status: 200 }));
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+
+      const result = await runner.executeOne("/api/crons/test1");
+
+      expect(result.responseBody).toBeUndefined();
+    });
+
     it("should include schedule in results", async () => {
       const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
 
@@ -484,5 +2144,54 @@ describe("CronRunner", () => {
 
       expect(results[0].schedule).toBe("* * * * *");
     });
+
+    it("should include UTC and local fire times in results", async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        fetch: mockFetch as any,
+      });
+
+      const results = await runner.executeAll();
+
+      expect(results[0].timezone).toBe("UTC");
+      expect(results[0].utcTime).toMatch(/Z$/);
+      expect(results[0].localTime).toMatch(/[+-]\d{2}:\d{2}$/);
+      expect(new Date(results[0].localTime).getTime()).toBe(
+        new Date(results[0].utcTime).getTime()
+      );
+    });
+
+    it("should use the real fire time, not node-cron's", async () => {
+      jest.useFakeTimers({ now: new Date("2025-01-05T08:00:00.250Z") });
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+      const runner = new CronRunner({
+        baseUrl: mockBaseUrl,
+        filter: "/api/crons/test2",
+        timezone: "America/New_York",
+        watchConfig: false,
+        fetch: mockFetch as any,
+      });
+      const results: any[] = [];
+      runner.on("job:success", (_job, result) => results.push(result));
+
+      try {
+        await runner.start();
+        // node-cron parses the New York wall-clock time as machine-local
+        // time, which gives this on a machine in UTC
+        const onTick = mockCron.schedule.mock.calls[0][1];
+        await onTick(new Date("2025-01-05T03:00:00.000Z"));
+      } finally {
+        runner.stop();
+        jest.useRealTimers();
+      }
+
+      expect(results[0].utcTime).toBe("2025-01-05T08:00:00.000Z");
+      // In the machine's timezone, but the same instant
+      expect(new Date(results[0].localTime).toISOString()).toBe(
+        "2025-01-05T08:00:00.000Z"
+      );
+    });
   });
 });
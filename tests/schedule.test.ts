@@ -0,0 +1,98 @@
+import { getNextRuns, parseCronExpression } from "../src/schedule";
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe("schedule", () => {
+  describe("parseCronExpression", () => {
+    it("should expand lists, ranges and steps", () => {
+      const cron = parseCronExpression("*/15 8-10 1,15 * *");
+
+      expect(cron.hasSeconds).toBe(false);
+      expect(cron.seconds).toEqual([0]);
+      expect(cron.minutes).toEqual([0, 15, 30, 45]);
+      expect(cron.hours).toEqual([8, 9, 10]);
+      expect(cron.daysOfMonth).toEqual([1, 15]);
+      expect(cron.months).toHaveLength(12);
+    });
+
+    it("should accept month and week day names and 7 for Sunday", () => {
+      const cron = parseCronExpression("0 0 * jan,DEC mon-fri,7");
+
+      expect(cron.months).toEqual([1, 12]);
+      expect(cron.daysOfWeek).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    it("should accept a leading seconds field", () => {
+      const cron = parseCronExpression("*/30 * * * * *");
+
+      expect(cron.hasSeconds).toBe(true);
+      expect(cron.seconds).toEqual([0, 30]);
+    });
+
+    it("should reject invalid expressions", () => {
+      expect(() => parseCronExpression("* * * *")).toThrow("expected 5 or 6");
+      expect(() => parseCronExpression("60 * * * *")).toThrow(
+        "Invalid minute value: 60"
+      );
+      expect(() => parseCronExpression("*/0 * * * *")).toThrow(
+        "Invalid minute step"
+      );
+      expect(() => parseCronExpression("0 10-8 * * *")).toThrow(
+        "Invalid hour range"
+      );
+    });
+  });
+
+  describe("getNextRuns", () => {
+    const from = new Date("2025-01-05T08:00:00.000Z");
+
+    it("should compute runs strictly after the start time in UTC", () => {
+      expect(iso(getNextRuns("0 8 * * *", 2, from))).toEqual([
+        "2025-01-06T08:00:00.000Z",
+        "2025-01-07T08:00:00.000Z",
+      ]);
+      expect(iso(getNextRuns("*/20 * * * *", 3, from))).toEqual([
+        "2025-01-05T08:20:00.000Z",
+        "2025-01-05T08:40:00.000Z",
+        "2025-01-05T09:00:00.000Z",
+      ]);
+    });
+
+    it("should compute runs in a timezone", () => {
+      expect(
+        iso(getNextRuns("0 9 * * mon-fri", 2, from, "America/New_York"))
+      ).toEqual(["2025-01-06T14:00:00.000Z", "2025-01-07T14:00:00.000Z"]);
+    });
+
+    it("should skip times missing on DST start and fire once on DST end", () => {
+      expect(
+        iso(
+          getNextRuns(
+            "30 2 * * *",
+            2,
+            new Date("2025-03-29T12:00:00.000Z"),
+            "Europe/Paris"
+          )
+        )
+      ).toEqual(["2025-03-31T00:30:00.000Z", "2025-04-01T00:30:00.000Z"]);
+
+      expect(
+        iso(
+          getNextRuns(
+            "30 2 * * *",
+            2,
+            new Date("2025-10-25T12:00:00.000Z"),
+            "Europe/Paris"
+          )
+        )
+      ).toEqual(["2025-10-26T00:30:00.000Z", "2025-10-27T01:30:00.000Z"]);
+    });
+
+    it("should find rare dates and stop on impossible ones", () => {
+      expect(iso(getNextRuns("0 0 29 2 *", 1, from))).toEqual([
+        "2028-02-29T00:00:00.000Z",
+      ]);
+      expect(getNextRuns("0 0 31 2 *", 1, from)).toEqual([]);
+    });
+  });
+});
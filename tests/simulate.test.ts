@@ -0,0 +1,80 @@
+import { simulate } from "../src/simulate";
+
+const jobs = [
+  { path: "/api/crons/b", schedule: "0 * * * *" },
+  { path: "/api/crons/a", schedule: "0 0 * * *" },
+];
+
+describe("simulate", () => {
+  it("should list fires in the window ordered by time then path", () => {
+    const fires = simulate(
+      jobs,
+      new Date("2025-01-31T23:00:00.000Z"),
+      new Date("2025-02-01T01:00:00.000Z")
+    );
+
+    expect(
+      fires.map((fire) => [fire.time.toISOString(), fire.path])
+    ).toEqual([
+      ["2025-01-31T23:00:00.000Z", "/api/crons/b"],
+      ["2025-02-01T00:00:00.000Z", "/api/crons/a"],
+      ["2025-02-01T00:00:00.000Z", "/api/crons/b"],
+      ["2025-02-01T01:00:00.000Z", "/api/crons/b"],
+    ]);
+  });
+
+  it("should evaluate schedules in the given timezone", () => {
+    const fires = simulate(
+      [{ path: "/api/crons/night", schedule: "30 2 * * *" }],
+      new Date("2025-10-25T00:00:00.000Z"),
+      new Date("2025-10-27T00:00:00.000Z"),
+      { timezone: "Europe/Paris" }
+    );
+
+    expect(fires.map((fire) => fire.time.toISOString())).toEqual([
+      "2025-10-25T00:30:00.000Z",
+      "2025-10-26T00:30:00.000Z",
+    ]);
+  });
+
+  it("should list a time repeated when DST ends only once", () => {
+    // 02:00 to 02:59 happen twice in Paris on 2025-10-26
+    const fires = simulate(
+      [
+        { path: "/api/crons/hourly", schedule: "0 * * * *" },
+        { path: "/api/crons/night", schedule: "30 2 * * *" },
+      ],
+      new Date("2025-10-26T00:00:00.000Z"),
+      new Date("2025-10-26T02:00:00.000Z"),
+      { timezone: "Europe/Paris" }
+    );
+
+    expect(
+      fires.map((fire) => [fire.time.toISOString(), fire.path])
+    ).toEqual([
+      ["2025-10-26T00:00:00.000Z", "/api/crons/hourly"],
+      ["2025-10-26T00:30:00.000Z", "/api/crons/night"],
+      ["2025-10-26T02:00:00.000Z", "/api/crons/hourly"],
+    ]);
+  });
+
+  it("should stop when the window has too many fires", () => {
+    expect(() =>
+      simulate(
+        [{ path: "/api/crons/busy", schedule: "* * * * *" }],
+        new Date("2025-01-01T00:00:00.000Z"),
+        new Date("2025-01-02T00:00:00.000Z"),
+        { limit: 100 }
+      )
+    ).toThrow("Simulation exceeds 100 fires");
+  });
+
+  it("should reject invalid windows", () => {
+    expect(() =>
+      simulate(jobs, new Date("invalid"), new Date("2025-01-01"))
+    ).toThrow("valid from and to dates");
+    expect(() =>
+      simulate(jobs, new Date("2025-01-02"), new Date("2025-01-01"))
+    ).toThrow("end after it starts");
+  });
+});
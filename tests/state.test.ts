@@ -0,0 +1,45 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RunnerState } from "../src/state";
+
+describe("RunnerState", () => {
+  let tmpDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "nextjs-crons-"));
+    file = path.join(tmpDir, "nested", "state.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should persist last fire times between instances", () => {
+    const time = new Date("2025-01-05T08:00:00.000Z");
+
+    new RunnerState(file).setLastFire("/api/crons/test1", time);
+
+    expect(new RunnerState(file).getLastFire("/api/crons/test1")).toEqual(
+      time
+    );
+  });
+
+  it("should never move a last fire time backwards", () => {
+    const state = new RunnerState(file);
+    const later = new Date("2025-01-05T09:00:00.000Z");
+
+    state.setLastFire("/api/crons/test1", later);
+    state.setLastFire("/api/crons/test1", new Date("2025-01-05T08:00:00Z"));
+
+    expect(state.getLastFire("/api/crons/test1")).toEqual(later);
+  });
+
+  it("should report an unreadable state file", () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, "{ invalid");
+
+    expect(() => new RunnerState(file)).toThrow("Invalid state file");
+  });
+});
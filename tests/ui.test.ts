@@ -0,0 +1,138 @@
+import { EventEmitter } from "events";
+import { PassThrough } from "stream";
+import { TerminalUI, TerminalUIRunner } from "../src/ui";
+import {
+  CronExecutionResult,
+  CronJobState,
+  CronJobStats,
+} from "../src/types";
+
+describe("TerminalUI", () => {
+  const job1 = { path: "/api/crons/test1", schedule: "* * * * *" };
+  const job2 = { path: "/api/crons/test2", schedule: "0 8 * * *" };
+  const lastResult = {
+    ...job1,
+    success: true,
+    outcome: "success",
+    statusCode: 200,
+    duration: 42,
+    timestamp: new Date("2025-01-05T08:00:00.000Z"),
+    responseBody: '{"sent":3}',
+  } as CronExecutionResult;
+
+  let runner: EventEmitter & jest.Mocked<TerminalUIRunner>;
+  let states: CronJobState[];
+  let jobStats: Record<string, Partial<CronJobStats>>;
+  let input: PassThrough & { isTTY?: boolean };
+  let output: { columns: number; write: jest.Mock };
+  let ui: TerminalUI;
+
+  const press = (key: string) => input.write(key);
+  const frame = () =>
+    ui
+      .renderFrame()
+      .join("\n")
+      .replace(/\x1b\[\d+m/g, "");
+
+  beforeEach(() => {
+    states = [
+      {
+        ...job1,
+        paused: false,
+        running: false,
+        nextRun: new Date("2025-01-05T08:01:00.000Z"),
+        lastResult,
+      },
+      { ...job2, paused: false, running: false },
+    ];
+    jobStats = {};
+
+    runner = Object.assign(new EventEmitter(), {
+      getJobStates: jest.fn(() => states),
+      getStats: jest.fn(() => ({ jobs: jobStats })),
+      triggerJob: jest.fn(async () => lastResult),
+      pauseJob: jest.fn((path: string) => {
+        states.find((job) => job.path === path)!.paused = true;
+      }),
+      resumeJob: jest.fn(),
+    }) as any;
+    input = new PassThrough();
+    output = { columns: 120, write: jest.fn() };
+
+    ui = new TerminalUI(runner, {
+      input: input as any,
+      output: output as any,
+    });
+    ui.start();
+  });
+
+  afterEach(() => {
+    ui.stop();
+  });
+
+  it("should show one row per job", () => {
+    const lines = frame().split("\n");
+
+    expect(lines[2]).toMatch(
+      /PATH\s+SCHEDULE\s+NEXT RUN\s+STATUS\s+DURATION\s+OK\s+FAIL/
+    );
+    expect(lines[3]).toMatch(
+      /^› \/api\/crons\/test1\s+\* \* \* \* \*\s+Sun 2025-01-05 08:01:00 UTC\s+200\s+42ms\s+0\s+0/
+    );
+    expect(lines[4]).toMatch(/^ {2}\/api\/crons\/test2\s+0 8 \* \* \*\s+-\s+-/);
+  });
+
+  it("should show success and failure counts of each job", () => {
+    jobStats[job1.path] = { successfulExecutions: 2, failedExecutions: 1 };
+
+    expect(frame().split("\n")[3]).toMatch(/42ms\s+2\s+1\s*$/);
+  });
+
+  it("should render again when a job finishes", () => {
+    output.write.mockClear();
+
+    runner.emit("job:success", job1, lastResult);
+
+    expect(output.write).toHaveBeenCalledTimes(1);
+  });
+
+  it("should trigger the selected job", async () => {
+    press("j");
+    press("\r");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(runner.triggerJob).toHaveBeenCalledWith("/api/crons/test2");
+    expect(frame()).toContain("/api/crons/test1: success (200)");
+  });
+
+  it("should pause the selected job", () => {
+    press("p");
+
+    expect(runner.pauseJob).toHaveBeenCalledWith("/api/crons/test1");
+    expect(frame()).toContain("Paused /api/crons/test1");
+    expect(frame().split("\n")[3]).toContain("paused");
+  });
+
+  it("should expand the last response body", () => {
+    expect(frame()).not.toContain('{"sent":3}');
+
+    press("b");
+
+    expect(frame()).toContain('{"sent":3}');
+  });
+
+  it("should call onQuit on q", () => {
+    const onQuit = jest.fn();
+    ui.stop();
+    ui = new TerminalUI(runner, {
+      input: input as any,
+      output: output as any,
+      onQuit,
+    });
+    ui.start();
+
+    press("q");
+
+    expect(onQuit).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import { checkVercelCompatibility } from "../src/validate";
+import { CronJob } from "../src/types";
+
+const reasons = (crons: CronJob[], plan?: any) =>
+  checkVercelCompatibility({ crons }, plan).map((issue) => issue.reason);
+
+describe("checkVercelCompatibility", () => {
+  it("should accept a compatible config", () => {
+    expect(
+      checkVercelCompatibility({
+        crons: [
+          { path: "/api/crons/daily", schedule: "0 8 * * *" },
+          { path: "/api/crons/weekly", schedule: "0 0 * * 1" },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it("should reject a seconds field", () => {
+    expect(reasons([{ path: "/api/a", schedule: "0 0 8 * * *" }])).toEqual([
+      expect.stringContaining("seconds field"),
+    ]);
+  });
+
+  it("should reject expressions that do not parse", () => {
+    expect(reasons([{ path: "/api/a", schedule: "0 25 * * *" }])).toEqual([
+      expect.stringContaining("Invalid hour value: 25"),
+    ]);
+  });
+
+  it("should reject names and both day fields", () => {
+    expect(
+      reasons([{ path: "/api/a", schedule: "0 8 1 * MON" }], "pro")
+    ).toEqual([
+      expect.stringContaining("names such as MON"),
+      expect.stringContaining("both day of month and day of week"),
+    ]);
+  });
+
+  it("should only allow daily crons on the hobby plan", () => {
+    const crons = [{ path: "/api/a", schedule: "*/5 * * * *" }];
+
+    expect(reasons(crons, "hobby")).toEqual([
+      "The hobby plan only allows crons that run at most once a day",
+    ]);
+    expect(reasons(crons, "pro")).toEqual([]);
+  });
+
+  it("should check paths", () => {
+    expect(
+      reasons([
+        { path: "api/a", schedule: "0 8 * * *" },
+        { path: `/${"a".repeat(512)}`, schedule: "0 8 * * *" },
+      ])
+    ).toEqual([
+      'Path must start with "/"',
+      "Path is longer than 512 characters",
+    ]);
+  });
+
+  it("should check the number of cron jobs", () => {
+    const crons = Array.from({ length: 101 }, (_, i) => ({
+      path: `/api/crons/${i}`,
+      schedule: "0 8 * * *",
+    }));
+
+    const issues = checkVercelCompatibility({ crons }, "enterprise");
+
+    expect(issues).toEqual([
+      {
+        reason: "The enterprise plan allows at most 100 cron jobs, found 101",
+      },
+    ]);
+  });
+
+  it("should throw error for an unknown plan", () => {
+    expect(() => reasons([], "free")).toThrow("Unknown Vercel plan: free");
+  });
+});